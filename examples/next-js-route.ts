@@ -5,8 +5,11 @@
 
 import { createVulturPermissionsHandler } from '@vultur-evefrontier/vultur-sso-client';
 
-// The GET handler will serve your application's permission configuration
-export const GET = createVulturPermissionsHandler();
+// The handler serves your application's permission configuration and
+// answers HEAD and CORS preflight (OPTIONS) requests
+const handler = createVulturPermissionsHandler();
+
+export { handler as GET, handler as HEAD, handler as OPTIONS };
 
 // Example of what this endpoint will serve:
 // GET /.well-known/vultur-permissions
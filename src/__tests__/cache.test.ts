@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { LRUCache, InMemoryCacheStore, RedisCacheStore, hashToken, namespaceCacheStore } from '../cache'
+import { FakeRedis } from './mocks/redis'
+
+describe('LRUCache', () => {
+  let cache: LRUCache<string>
+
+  beforeEach(() => {
+    cache = new LRUCache<string>({ ttl: 1000, maxEntries: 2 })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should return stored values and count hits and misses', () => {
+    cache.set('a', 'value-a')
+
+    expect(cache.get('a')).toBe('value-a')
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1, evictions: 0, size: 1 })
+  })
+
+  it('should expire entries after the TTL', () => {
+    vi.useFakeTimers()
+    cache.set('a', 'value-a')
+
+    vi.advanceTimersByTime(1001)
+
+    expect(cache.get('a')).toBeUndefined()
+    expect(cache.getStats().size).toBe(0)
+  })
+
+  it('should evict the least recently used entry when full', () => {
+    cache.set('a', 'value-a')
+    cache.set('b', 'value-b')
+    cache.get('a')
+    cache.set('c', 'value-c')
+
+    expect(cache.get('a')).toBe('value-a')
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get('c')).toBe('value-c')
+    expect(cache.getStats().evictions).toBe(1)
+  })
+
+  it('should not store anything when TTL is zero', () => {
+    const disabled = new LRUCache<string>({ ttl: 0 })
+    disabled.set('a', 'value-a')
+
+    expect(disabled.get('a')).toBeUndefined()
+  })
+
+  it('should clear entries', () => {
+    cache.set('a', 'value-a')
+    cache.get('a')
+
+    cache.clear()
+
+    expect(cache.get('a')).toBeUndefined()
+    expect(cache.getStats().size).toBe(0)
+  })
+})
+
+describe('hashToken', () => {
+  it('should produce a stable SHA-256 hex digest', async () => {
+    const hash = await hashToken('valid-token')
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(await hashToken('valid-token')).toBe(hash)
+    expect(await hashToken('other-token')).not.toBe(hash)
+  })
+})
+
+describe('InMemoryCacheStore', () => {
+  it('should store values with a TTL', async () => {
+    vi.useFakeTimers()
+    const store = new InMemoryCacheStore()
+
+    await store.set('key', { value: 1 }, 1000)
+    expect(await store.get('key')).toEqual({ value: 1 })
+
+    vi.advanceTimersByTime(1001)
+    expect(await store.get('key')).toBeUndefined()
+    vi.useRealTimers()
+  })
+
+  it('should delete and clear entries', async () => {
+    const store = new InMemoryCacheStore({ maxEntries: 10 })
+    await store.set('a', 1, 1000)
+    await store.set('b', 2, 1000)
+
+    await store.delete('a')
+    expect(await store.get('a')).toBeUndefined()
+    expect(store.getStats()).toEqual({ evictions: 0, size: 1 })
+
+    await store.clear()
+    expect(store.getStats().size).toBe(0)
+  })
+})
+
+describe('RedisCacheStore', () => {
+  let redis: FakeRedis
+  let store: RedisCacheStore
+
+  beforeEach(() => {
+    redis = new FakeRedis()
+    store = new RedisCacheStore(redis, { keyPrefix: 'prefix:' })
+  })
+
+  it('should store JSON values with a PX expiry', async () => {
+    await store.set('key', { roles: ['Fleet Member'] }, 1500)
+
+    expect(redis.commands[0]).toEqual(['SET', 'prefix:key', '{"roles":["Fleet Member"]}', 'PX', '1500'])
+    expect(await store.get('key')).toEqual({ roles: ['Fleet Member'] })
+  })
+
+  it('should return undefined for missing or expired keys', async () => {
+    vi.useFakeTimers()
+    await store.set('key', true, 1000)
+    vi.advanceTimersByTime(1001)
+
+    expect(await store.get('key')).toBeUndefined()
+    expect(await store.get('missing')).toBeUndefined()
+    vi.useRealTimers()
+  })
+
+  it('should round-trip false values', async () => {
+    await store.set('denied', false, 1000)
+    expect(await store.get('denied')).toBe(false)
+  })
+
+  it('should delete keys', async () => {
+    await store.set('key', 1, 1000)
+    await store.delete('key')
+
+    expect(redis.commands[1]).toEqual(['DEL', 'prefix:key'])
+    expect(await store.get('key')).toBeUndefined()
+  })
+
+  it('should skip writes with a non-positive TTL', async () => {
+    await store.set('key', 1, 0)
+    expect(redis.commands).toHaveLength(0)
+  })
+
+  it('should clear only the keys under its prefix', async () => {
+    await redis.sendCommand(['SET', 'other:key', '1'])
+    await store.set('a', 1, 1000)
+    await store.addToSet('index', 'a', 1000)
+
+    await store.clear()
+
+    expect(redis.keys()).toEqual(['other:key'])
+  })
+
+  it('should clear only vultur keys without a prefix', async () => {
+    const unprefixed = new RedisCacheStore(redis)
+    await redis.sendCommand(['SET', 'other:key', '1'])
+    await namespaceCacheStore(unprefixed, 'fleet-app').set('roles:0xabc', [], 1000)
+
+    await unprefixed.clear()
+
+    expect(redis.keys()).toEqual(['other:key'])
+  })
+
+  it('should add set members atomically and refresh the expiry', async () => {
+    await Promise.all([store.addToSet('index', 'a', 1000), store.addToSet('index', 'b', 1000)])
+
+    expect(redis.commands).toContainEqual(['SADD', 'prefix:index', 'a'])
+    expect(redis.commands).toContainEqual(['PEXPIRE', 'prefix:index', '1000'])
+    expect((await store.getSetMembers('index')).sort()).toEqual(['a', 'b'])
+    expect(await store.getSetMembers('missing')).toEqual([])
+  })
+})
+
+describe('namespaceCacheStore', () => {
+  it('should prefix keys with the application name', async () => {
+    const redis = new FakeRedis()
+    const shared = new RedisCacheStore(redis)
+    const fleet = namespaceCacheStore(shared, 'fleet-app')
+    const warehouse = namespaceCacheStore(shared, 'warehouse-app')
+
+    await fleet.set('roles:0xabc', ['Fleet Member'], 1000)
+
+    expect(redis.keys()).toEqual(['vultur:fleet-app:roles:0xabc'])
+    expect(await fleet.get('roles:0xabc')).toEqual(['Fleet Member'])
+    expect(await warehouse.get('roles:0xabc')).toBeUndefined()
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { conditionsHold, evaluateCondition, parseCondition } from '../conditions'
+import type { ConditionContext } from '../conditions'
+import { mockUserInfo } from './mocks/server'
+
+const context = (resource?: Record<string, unknown>, user = mockUserInfo): ConditionContext => ({ user, resource })
+
+describe('evaluateCondition', () => {
+  it('should compare resource attributes with user attributes', () => {
+    expect(evaluateCondition('resource.tribe_id == user.tribe_id', context({ tribe_id: 12345 }))).toBe(true)
+    expect(evaluateCondition('resource.tribe_id == user.tribe_id', context({ tribe_id: 1 }))).toBe(false)
+    expect(evaluateCondition('resource.tribe_id != user.tribe_id', context({ tribe_id: 1 }))).toBe(true)
+  })
+
+  it('should compare with literals', () => {
+    expect(evaluateCondition("resource.status == 'docked'", context({ status: 'docked' }))).toBe(true)
+    expect(evaluateCondition('resource.size <= 10', context({ size: 10 }))).toBe(true)
+    expect(evaluateCondition('resource.size > 10', context({ size: 10 }))).toBe(false)
+    expect(evaluateCondition('resource.public == true', context({ public: true }))).toBe(true)
+    expect(evaluateCondition('resource.size > 10', context({ size: '20' }))).toBe(false)
+  })
+
+  it('should follow nested paths and membership', () => {
+    const owner = context({ owner: { address: mockUserInfo.eth_address } })
+
+    expect(evaluateCondition('resource.owner.address == user.eth_address', owner)).toBe(true)
+    expect(evaluateCondition("'Fleet Member' in user.roles", context())).toBe(true)
+    expect(evaluateCondition('user.tribe_id in resource.allowed_tribes', context({ allowed_tribes: [1, 2] }))).toBe(false)
+  })
+
+  it('should not match missing attributes unless compared with null', () => {
+    const tribeless = { ...mockUserInfo, tribe_id: null }
+
+    expect(evaluateCondition('resource.tribe_id == user.tribe_id', context({}, tribeless))).toBe(false)
+    expect(evaluateCondition('resource.tribe_id != user.tribe_id', context({}, tribeless))).toBe(false)
+    expect(evaluateCondition('resource.tribe_id == user.tribe_id', context())).toBe(false)
+    expect(evaluateCondition('user.tribe_id == null', context({}, tribeless))).toBe(true)
+    expect(evaluateCondition('resource.owner != null', context({ owner: 'x' }))).toBe(true)
+  })
+})
+
+describe('parseCondition', () => {
+  it('should reject malformed conditions', () => {
+    expect(() => parseCondition('resource.tribe_id = user.tribe_id')).toThrow(
+      expect.objectContaining({
+        code: 'CONFIG_ERROR',
+        message: "Invalid permission condition 'resource.tribe_id = user.tribe_id': expected '<operand> <operator> <operand>'",
+      })
+    )
+    expect(() => parseCondition('tribe_id == user.tribe_id')).toThrow(expect.objectContaining({ code: 'CONFIG_ERROR' }))
+    expect(() => parseCondition('resource.tribe_id == user.tribe_id')).not.toThrow()
+  })
+})
+
+describe('conditionsHold', () => {
+  it('should require every condition and a context for conditional permissions', () => {
+    const conditions = ['resource.tribe_id == user.tribe_id', "resource.status == 'docked'"]
+
+    expect(conditionsHold(undefined)).toBe(true)
+    expect(conditionsHold([], undefined)).toBe(true)
+    expect(conditionsHold(conditions, context({ tribe_id: 12345, status: 'docked' }))).toBe(true)
+    expect(conditionsHold(conditions, context({ tribe_id: 12345, status: 'undocked' }))).toBe(false)
+    expect(conditionsHold(conditions)).toBe(false)
+  })
+})
@@ -31,6 +31,23 @@ describe('Configuration', () => {
       expect(() => initializeVulturSSO(config)).not.toThrow()
     })
 
+    it('should reject an invalid permission configuration', () => {
+      const config: VulturSSOClientConfig = {
+        identApiUrl: 'https://api.example.com',
+        applicationName: 'test-app',
+        permissionConfig: {
+          applicationName: 'test-app',
+          version: 'latest',
+          permissions: [],
+          lastUpdated: '2024-01-01T00:00:00Z',
+        },
+      }
+
+      expect(() => initializeVulturSSO(config)).toThrow(
+        "Invalid permission configuration for test-app: Version 'latest' is not a semantic version (e.g. 1.0.0)"
+      )
+    })
+
     it('should set default values for optional fields', () => {
       const config: VulturSSOClientConfig = {
         identApiUrl: 'https://api.example.com',
@@ -277,6 +294,17 @@ describe('PermissionPatterns', () => {
       expect(permissions[3].name).toBe('Admin Test Resource')
     })
 
+    it('should declare admin implies write implies read', () => {
+      const permissions = PermissionPatterns.crud('test')
+
+      expect(permissions.map(p => p.implies)).toEqual([
+        [],
+        ['test:read'],
+        [],
+        ['test:write', 'test:delete'],
+      ])
+    })
+
     it('should create proper descriptions', () => {
       const permissions = PermissionPatterns.crud('test', 'Test Resource')
 
@@ -315,6 +343,17 @@ describe('PermissionPatterns', () => {
       expect(permissions[2].action).toBe('director')
       expect(permissions[3].action).toBe('ceo')
     })
+
+    it('should make each rank imply the one below', () => {
+      const permissions = PermissionPatterns.tribal('fleet')
+
+      expect(permissions.map(p => p.implies)).toEqual([
+        [],
+        ['fleet:member'],
+        ['fleet:officer'],
+        ['fleet:director'],
+      ])
+    })
   })
 })
 
@@ -343,4 +382,31 @@ describe('Integration', () => {
     const warehouseMemberPermission = config.permissions.find(p => p.id === 'warehouse:member')
     expect(warehouseMemberPermission).toBeDefined()
   })
+
+  it('should reject implication cycles at build time', () => {
+    const builder = VulturPermissionConfigBuilder.create('test-app')
+      .addPermissionScope({ id: 'fleet:read', name: 'Read', resource: 'fleet', action: 'read', implies: ['fleet:write'] })
+      .addPermissionScope({ id: 'fleet:write', name: 'Write', resource: 'fleet', action: 'write', implies: ['fleet:read'] })
+
+    expect(() => builder.build()).toThrow('Permission scope implications form a cycle: fleet:read -> fleet:write -> fleet:read')
+  })
+
+  it('should validate and stamp the configuration at build time', () => {
+    const builder = VulturPermissionConfigBuilder.create('test-app')
+      .addPermissionScope({ id: 'fleet:read', name: 'Read', resource: 'fleet', action: 'read' })
+      .addPermissionScope({ id: 'fleet:read', name: 'Read again', resource: 'fleet', action: 'read' })
+
+    expect(() => builder.build()).toThrow("Scope id 'fleet:read' is defined more than once")
+  })
+
+  it('should let warnings fail the build', () => {
+    const builder = VulturPermissionConfigBuilder.create('test-app')
+      .addPermissionScope({ id: 'fleet:dock', name: 'Dock', resource: 'fleet', action: 'moor' })
+    const onWarning = vi.fn()
+
+    expect(builder.build({ onWarning }).lastUpdated).toBeDefined()
+    expect(onWarning).toHaveBeenCalledWith([expect.objectContaining({ code: 'scope-id-mismatch' })])
+    expect(() => builder.build({ warningsAsErrors: true })).toThrow(expect.objectContaining({ code: 'CONFIG_ERROR' }))
+  })
 })
+
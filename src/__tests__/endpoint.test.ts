@@ -6,6 +6,10 @@ vi.mock('next/server', () => {
   class MockNextRequest {
     constructor(public url: string, public init?: RequestInit) {}
     
+    get method() {
+      return this.init?.method ?? 'GET'
+    }
+    
     get headers() {
       return new Headers(this.init?.headers)
     }
@@ -55,6 +59,7 @@ import {
   createStaticVulturPermissionsApiHandler,
   validateWellKnownPath,
   getWellKnownUrl,
+  getPermissionConfigValidators,
 } from '../endpoint'
 import { initializeVulturSSO, resetVulturSSOConfig, VulturPermissionConfigBuilder } from '../config'
 
@@ -155,8 +160,12 @@ describe('Next.js Endpoint Handlers', () => {
       
       expect(response.status).toBe(500)
       const errorResponse = await response.json()
-      expect(errorResponse.error).toBe('Internal server error')
-      expect(errorResponse.message).toBe('Failed to load permission configuration')
+      expect(errorResponse).toEqual({
+        type: 'about:blank',
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'Failed to load permission configuration',
+      })
     })
   })
 
@@ -196,7 +205,7 @@ describe('Next.js Endpoint Handlers', () => {
       
       expect(response.status).toBe(500)
       const errorResponse = await response.json()
-      expect(errorResponse.error).toBe('Internal server error')
+      expect(errorResponse.title).toBe('Internal Server Error')
     })
   })
 
@@ -215,6 +224,7 @@ describe('Next.js Endpoint Handlers', () => {
       mockRes = {
         status: vi.fn().mockReturnThis(),
         json: vi.fn().mockReturnThis(),
+        send: vi.fn().mockReturnThis(),
         setHeader: vi.fn().mockReturnThis(),
       }
     })
@@ -237,11 +247,14 @@ describe('Next.js Endpoint Handlers', () => {
       
       await handler(mockReq as any, mockRes)
       
-      expect(mockRes.setHeader).toHaveBeenCalledWith('Allow', ['GET'])
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Allow', 'GET, HEAD, OPTIONS')
       expect(mockRes.status).toHaveBeenCalledWith(405)
-      expect(mockRes.json).toHaveBeenCalledWith({
-        error: 'Method not allowed',
-        message: 'Only GET requests are supported',
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Content-Type', 'application/problem+json')
+      expect(JSON.parse(mockRes.send.mock.calls[0][0])).toEqual({
+        type: 'about:blank',
+        title: 'Method Not Allowed',
+        status: 405,
+        detail: 'Only GET, HEAD and OPTIONS requests are supported',
       })
     })
 
@@ -255,12 +268,10 @@ describe('Next.js Endpoint Handlers', () => {
       await handler(mockReq as any, mockRes)
       
       expect(mockRes.status).toHaveBeenCalledWith(500)
-      expect(mockRes.json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          error: 'Internal server error',
-          message: 'Failed to load permission configuration',
-        })
-      )
+      expect(JSON.parse(mockRes.send.mock.calls[0][0])).toMatchObject({
+        status: 500,
+        detail: 'Failed to load permission configuration',
+      })
     })
   })
 
@@ -271,6 +282,7 @@ describe('Next.js Endpoint Handlers', () => {
       mockRes = {
         status: vi.fn().mockReturnThis(),
         json: vi.fn().mockReturnThis(),
+        send: vi.fn().mockReturnThis(),
         setHeader: vi.fn().mockReturnThis(),
       }
     })
@@ -305,11 +317,310 @@ describe('Next.js Endpoint Handlers', () => {
       await handler(mockReq as any, mockRes)
       
       expect(mockRes.status).toHaveBeenCalledWith(500)
-      expect(mockRes.json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          error: 'Internal server error',
-        })
+      expect(JSON.parse(mockRes.send.mock.calls[0][0])).toMatchObject({
+        title: 'Internal Server Error',
+      })
+    })
+  })
+})
+
+describe('Conditional requests', () => {
+  const wellKnownUrl = 'https://example.com/.well-known/vultur-permissions'
+
+  const createMockRes = () => ({
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    send: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  })
+
+  describe('getPermissionConfigValidators', () => {
+    it('should derive a stable weak ETag from the content', async () => {
+      const { etag } = await getPermissionConfigValidators(mockPermissionConfig)
+      const reordered = Object.fromEntries(Object.entries(mockPermissionConfig).reverse()) as VulturPermissionConfig
+
+      expect(etag).toMatch(/^W\/"[\w-]{43}"$/)
+      expect((await getPermissionConfigValidators(reordered)).etag).toBe(etag)
+      expect((await getPermissionConfigValidators({ ...mockPermissionConfig, version: '1.0.1' })).etag).not.toBe(etag)
+    })
+
+    it('should keep the ETag when the same scopes are built again', async () => {
+      vi.useFakeTimers()
+      const build = () => VulturPermissionConfigBuilder
+        .create('fleet-manager', '1.0.0')
+        .addPermissionScope({ id: 'fleet:read', name: 'Read Fleet', resource: 'fleet', action: 'read' })
+        .build()
+
+      const first = build()
+      vi.advanceTimersByTime(60_000)
+      const second = build()
+      vi.useRealTimers()
+
+      expect(second.lastUpdated).not.toBe(first.lastUpdated)
+      expect((await getPermissionConfigValidators(second)).etag).toBe((await getPermissionConfigValidators(first)).etag)
+    })
+
+    it('should take Last-Modified from a valid lastUpdated', async () => {
+      const validators = await getPermissionConfigValidators(mockPermissionConfig)
+      expect(validators.lastModified).toBe('Mon, 01 Jan 2024 00:00:00 GMT')
+
+      const invalid = { ...mockPermissionConfig, lastUpdated: 'not a date' }
+      expect((await getPermissionConfigValidators(invalid)).lastModified).toBeUndefined()
+    })
+  })
+
+  describe('App Router handlers', () => {
+    it('should send ETag and Last-Modified headers', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig)
+      const { etag, lastModified } = await getPermissionConfigValidators(mockPermissionConfig)
+
+      const response = await handler(new MockNextRequest(wellKnownUrl) as any)
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('ETag')).toBe(etag)
+      expect(response.headers.get('Last-Modified')).toBe(lastModified)
+    })
+
+    it('should answer 304 when If-None-Match matches', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig)
+      const { etag } = await getPermissionConfigValidators(mockPermissionConfig)
+
+      const response = await handler(new MockNextRequest(wellKnownUrl, {
+        headers: { 'If-None-Match': `"other", ${etag.slice(2)}` },
+      }) as any)
+
+      expect(response.status).toBe(304)
+      expect(response.body).toBeNull()
+      expect(response.headers.get('ETag')).toBe(etag)
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=300')
+    })
+
+    it('should answer 200 when If-None-Match does not match, even if not modified since', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig)
+
+      const response = await handler(new MockNextRequest(wellKnownUrl, {
+        headers: { 'If-None-Match': 'W/"stale"', 'If-Modified-Since': 'Tue, 02 Jan 2024 00:00:00 GMT' },
+      }) as any)
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual(mockPermissionConfig)
+    })
+
+    it('should honor If-Modified-Since', async () => {
+      resetVulturSSOConfig()
+      initializeVulturSSO({
+        identApiUrl: 'https://api.example.com',
+        applicationName: 'test-app',
+        permissionConfig: mockPermissionConfig,
+      })
+      const handler = createVulturPermissionsHandler()
+
+      const notModified = await handler(new MockNextRequest(wellKnownUrl, {
+        headers: { 'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT' },
+      }) as any)
+      const modified = await handler(new MockNextRequest(wellKnownUrl, {
+        headers: { 'If-Modified-Since': 'Sun, 31 Dec 2023 23:59:59 GMT' },
+      }) as any)
+
+      expect(notModified.status).toBe(304)
+      expect(modified.status).toBe(200)
+    })
+  })
+
+  describe('Pages Router handlers', () => {
+    it('should send ETag and Last-Modified headers', async () => {
+      const handler = createStaticVulturPermissionsApiHandler(mockPermissionConfig)
+      const { etag, lastModified } = await getPermissionConfigValidators(mockPermissionConfig)
+      const mockRes = createMockRes()
+
+      await handler({ method: 'GET', headers: {} } as any, mockRes as any)
+
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+      expect(mockRes.setHeader).toHaveBeenCalledWith('ETag', etag)
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Last-Modified', lastModified)
+    })
+
+    it('should answer 304 when If-None-Match matches', async () => {
+      resetVulturSSOConfig()
+      initializeVulturSSO({
+        identApiUrl: 'https://api.example.com',
+        applicationName: 'test-app',
+        permissionConfig: mockPermissionConfig,
+      })
+      const handler = createVulturPermissionsApiHandler()
+      const { etag } = await getPermissionConfigValidators(mockPermissionConfig)
+      const mockRes = createMockRes()
+
+      await handler({ method: 'GET', headers: { 'if-none-match': etag } } as any, mockRes as any)
+
+      expect(mockRes.status).toHaveBeenCalledWith(304)
+      expect(mockRes.end).toHaveBeenCalled()
+      expect(mockRes.json).not.toHaveBeenCalled()
+    })
+
+    it('should honor If-Modified-Since', async () => {
+      const handler = createStaticVulturPermissionsApiHandler(mockPermissionConfig)
+      const mockRes = createMockRes()
+
+      await handler(
+        { method: 'GET', headers: { 'if-modified-since': 'Wed, 01 May 2024 00:00:00 GMT' } } as any,
+        mockRes as any
+      )
+
+      expect(mockRes.status).toHaveBeenCalledWith(304)
+      expect(mockRes.json).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('Handler options and methods', () => {
+  const wellKnownUrl = 'https://example.com/.well-known/vultur-permissions'
+
+  const createMockRes = () => ({
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    send: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+  })
+
+  const request = (init: RequestInit = {}) => new MockNextRequest(wellKnownUrl, init) as any
+
+  describe('allowedOrigins', () => {
+    const options = { allowedOrigins: ['https://ident.example.com'] }
+
+    it('should reflect an allowed origin with Vary: Origin', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig, options)
+
+      const response = await handler(request({ headers: { Origin: 'https://ident.example.com' } }))
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://ident.example.com')
+      expect(response.headers.get('Vary')).toBe('Origin')
+    })
+
+    it('should not allow other origins', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig, options)
+
+      const response = await handler(request({ headers: { Origin: 'https://evil.example.com' } }))
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull()
+      expect(response.headers.get('Access-Control-Allow-Methods')).toBeNull()
+      expect(response.headers.get('Vary')).toBe('Origin')
+    })
+
+    it('should reflect allowed origins from the Pages Router handler', async () => {
+      const handler = createStaticVulturPermissionsApiHandler(mockPermissionConfig, options)
+      const mockRes = createMockRes()
+
+      await handler({ method: 'GET', headers: { origin: 'https://ident.example.com' } } as any, mockRes as any)
+
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Origin', 'https://ident.example.com')
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Vary', 'Origin')
+    })
+  })
+
+  describe('cacheControl and headers', () => {
+    it('should use a Cache-Control value as given', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig, { cacheControl: 'no-cache' })
+
+      const response = await handler(request())
+
+      expect(response.headers.get('Cache-Control')).toBe('no-cache')
+    })
+
+    it('should format a cache policy', async () => {
+      const shared = createStaticVulturPermissionsHandler(mockPermissionConfig, {
+        cacheControl: { maxAge: 60, sMaxAge: 600, staleWhileRevalidate: 30 },
+      })
+      const browserOnly = createStaticVulturPermissionsHandler(mockPermissionConfig, {
+        cacheControl: { maxAge: 60, sMaxAge: 600, private: true },
+      })
+
+      expect((await shared(request())).headers.get('Cache-Control')).toBe(
+        'public, max-age=60, s-maxage=600, stale-while-revalidate=30'
       )
+      expect((await browserOnly(request())).headers.get('Cache-Control')).toBe('private, max-age=60')
+    })
+
+    it('should add extra headers to every response', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig, {
+        headers: { 'X-Robots-Tag': 'noindex', 'Cache-Control': 'no-store' },
+      })
+
+      const response = await handler(request())
+      const preflight = await handler(request({ method: 'OPTIONS' }))
+
+      expect(response.headers.get('X-Robots-Tag')).toBe('noindex')
+      expect(response.headers.get('Cache-Control')).toBe('no-store')
+      expect(preflight.headers.get('X-Robots-Tag')).toBe('noindex')
+    })
+  })
+
+  describe('App Router methods', () => {
+    it('should answer OPTIONS preflight requests', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig)
+
+      const response = await handler(request({ method: 'OPTIONS' }))
+
+      expect(response.status).toBe(204)
+      expect(await response.text()).toBeNull()
+      expect(response.headers.get('Allow')).toBe('GET, HEAD, OPTIONS')
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*')
+      expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, HEAD')
+      expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, If-None-Match, If-Modified-Since')
+      expect(response.headers.get('Access-Control-Max-Age')).toBe('86400')
+    })
+
+    it('should answer HEAD requests with headers only', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig)
+      const { etag } = await getPermissionConfigValidators(mockPermissionConfig)
+
+      const response = await handler(request({ method: 'HEAD' }))
+
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBeNull()
+      expect(response.headers.get('Content-Type')).toBe('application/json')
+      expect(response.headers.get('ETag')).toBe(etag)
+    })
+
+    it('should reject other methods with 405', async () => {
+      const handler = createStaticVulturPermissionsHandler(mockPermissionConfig)
+
+      const response = await handler(request({ method: 'DELETE' }))
+
+      expect(response.status).toBe(405)
+      expect(response.headers.get('Allow')).toBe('GET, HEAD, OPTIONS')
+      expect(response.headers.get('Content-Type')).toBe('application/problem+json')
+      expect(await response.json()).toMatchObject({ status: 405, title: 'Method Not Allowed' })
+    })
+  })
+
+  describe('Pages Router methods', () => {
+    it('should answer OPTIONS preflight requests', async () => {
+      const handler = createStaticVulturPermissionsApiHandler(mockPermissionConfig)
+      const mockRes = createMockRes()
+
+      await handler({ method: 'OPTIONS', headers: {} } as any, mockRes as any)
+
+      expect(mockRes.status).toHaveBeenCalledWith(204)
+      expect(mockRes.end).toHaveBeenCalled()
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Allow', 'GET, HEAD, OPTIONS')
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Methods', 'GET, HEAD')
+    })
+
+    it('should answer HEAD requests with headers only', async () => {
+      const handler = createStaticVulturPermissionsApiHandler(mockPermissionConfig)
+      const mockRes = createMockRes()
+
+      await handler({ method: 'HEAD', headers: {} } as any, mockRes as any)
+
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+      expect(mockRes.end).toHaveBeenCalled()
+      expect(mockRes.json).not.toHaveBeenCalled()
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Content-Type', 'application/json')
     })
   })
 })
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  VulturSSOError,
+  createResponseError,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+  readJsonResponse,
+} from '../errors'
+
+describe('VulturSSOError', () => {
+  it('should derive retryability from the code', () => {
+    expect(new VulturSSOError('UPSTREAM_ERROR', 'x').retryable).toBe(true)
+    expect(new VulturSSOError('TIMEOUT', 'x').retryable).toBe(true)
+    expect(new VulturSSOError('UNAUTHORIZED', 'x').retryable).toBe(false)
+    expect(new VulturSSOError('INVALID_RESPONSE', 'x').retryable).toBe(false)
+  })
+
+  it('should accept status, retryAfter and requestId', () => {
+    const error = new VulturSSOError('RATE_LIMITED', 'Slow down', undefined, {
+      status: 429,
+      retryAfter: 5,
+      requestId: 'req-1',
+      retryable: false,
+    })
+
+    expect(error).toMatchObject({ status: 429, retryAfter: 5, requestId: 'req-1', retryable: false })
+  })
+})
+
+describe('isRetryableError', () => {
+  it('should treat unknown errors as transient', () => {
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true)
+    expect(isRetryableError(new VulturSSOError('FORBIDDEN', 'x'))).toBe(false)
+  })
+})
+
+describe('isRetryableStatus', () => {
+  it('should retry 408, 429 and 5xx except 501', () => {
+    expect([408, 429, 500, 502, 503, 504].every(isRetryableStatus)).toBe(true)
+    expect([400, 401, 403, 404, 501].some(isRetryableStatus)).toBe(false)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should parse delta-seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120)
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+
+  it('should parse HTTP dates', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30)
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT')).toBe(0)
+  })
+})
+
+describe('createResponseError', () => {
+  it('should map 401 to UNAUTHORIZED or TOKEN_EXPIRED', () => {
+    expect(createResponseError(new Response(null, { status: 401 }), 'Op')).toMatchObject({
+      code: 'UNAUTHORIZED',
+      status: 401,
+      retryable: false,
+    })
+
+    const expired = new Response(null, {
+      status: 401,
+      headers: { 'WWW-Authenticate': 'Bearer error="invalid_token", error_description="The token expired"' },
+    })
+    expect(createResponseError(expired, 'Op')).toMatchObject({ code: 'TOKEN_EXPIRED' })
+  })
+
+  it('should map status codes to error codes', () => {
+    const codeFor = (status: number) => createResponseError(new Response(null, { status }), 'Op').code
+
+    expect(codeFor(403)).toBe('FORBIDDEN')
+    expect(codeFor(404)).toBe('NOT_FOUND')
+    expect(codeFor(429)).toBe('RATE_LIMITED')
+    expect(codeFor(408)).toBe('TIMEOUT')
+    expect(codeFor(504)).toBe('TIMEOUT')
+    expect(codeFor(500)).toBe('UPSTREAM_ERROR')
+    expect(codeFor(400)).toBe('NETWORK_ERROR')
+  })
+
+  it('should not retry 501 or unexpected 4xx', () => {
+    expect(createResponseError(new Response(null, { status: 501 }), 'Op').retryable).toBe(false)
+    expect(createResponseError(new Response(null, { status: 400 }), 'Op').retryable).toBe(false)
+  })
+
+  it('should use per-status messages and read response headers', () => {
+    const response = new Response(null, {
+      status: 429,
+      headers: { 'Retry-After': '7', 'X-Request-Id': 'req-42' },
+    })
+    const error = createResponseError(response, 'Op', { 429: 'Too many requests' })
+
+    expect(error).toMatchObject({
+      code: 'RATE_LIMITED',
+      message: 'Too many requests',
+      retryAfter: 7,
+      requestId: 'req-42',
+    })
+  })
+})
+
+describe('readJsonResponse', () => {
+  it('should parse JSON bodies', async () => {
+    expect(await readJsonResponse(Response.json({ ok: true }), 'Op')).toEqual({ ok: true })
+  })
+
+  it('should throw INVALID_RESPONSE for malformed bodies', async () => {
+    await expect(readJsonResponse(new Response('<html>', { status: 200 }), 'Get user info failed')).rejects.toThrow(
+      expect.objectContaining({
+        code: 'INVALID_RESPONSE',
+        message: 'Get user info failed: response is not valid JSON',
+        status: 200,
+      })
+    )
+  })
+})
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+import type { NextApiRequest, NextApiResponse } from 'next'
+import {
+  withAuthHandler,
+  withPermissionHandler,
+  withAuthApiHandler,
+  withPermissionApiHandler,
+} from '../guards'
+import { VulturIdentServerClient } from '../server'
+import { mockUserInfo } from './mocks/server'
+
+const TEST_API_URL = 'https://api.example.com'
+
+function createRequest(token?: string): NextRequest {
+  return new NextRequest('https://app.example.com/api/fleet/42', {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  })
+}
+
+function createApiRequest(token?: string): NextApiRequest {
+  return { headers: token ? { authorization: `Bearer ${token}` } : {} } as NextApiRequest
+}
+
+type MockApiResponse = {
+  statusCode: number
+  headers: Record<string, string>
+  body: unknown
+  setHeader(name: string, value: string): MockApiResponse
+  status(code: number): MockApiResponse
+  send(body: string): MockApiResponse
+}
+
+function createApiResponse(): MockApiResponse {
+  const res: MockApiResponse = {
+    statusCode: 200,
+    headers: {},
+    body: undefined,
+    setHeader(name, value) {
+      res.headers[name] = value
+      return res
+    },
+    status(code) {
+      res.statusCode = code
+      return res
+    },
+    send(body) {
+      res.body = JSON.parse(body)
+      return res
+    },
+  }
+  return res
+}
+
+describe('App Router guards', () => {
+  let client: VulturIdentServerClient
+
+  beforeEach(() => {
+    client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL })
+  })
+
+  it('should pass the user, request and route context to the handler', async () => {
+    const handler = vi.fn(async () => NextResponse.json({ ok: true }))
+    const route = withAuthHandler(client, handler)
+    const request = createRequest('valid-token')
+    const context = { params: { id: '42' } }
+
+    const response = await route(request, context)
+
+    expect(response.status).toBe(200)
+    expect(handler).toHaveBeenCalledWith(mockUserInfo, request, context)
+  })
+
+  it('should answer 401 with a challenge when no token is sent', async () => {
+    const handler = vi.fn()
+    const response = await withAuthHandler(client, handler)(createRequest(), { params: {} })
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer realm="vultur"')
+    expect(response.headers.get('Content-Type')).toBe('application/problem+json')
+    expect(await response.json()).toEqual({
+      type: 'urn:vultur:problem:unauthorized',
+      title: 'Unauthorized',
+      status: 401,
+      detail: 'No JWT token provided',
+      vulturCode: 'UNAUTHORIZED',
+    })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should report invalid_token for rejected tokens', async () => {
+    const response = await withAuthHandler(client, vi.fn(), { realm: 'fleet' })(createRequest('invalid-token'), {
+      params: {},
+    })
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get('WWW-Authenticate')).toBe(
+      'Bearer realm="fleet", error="invalid_token", error_description="Invalid or expired token"'
+    )
+  })
+
+  it('should answer 403 when the permission is missing', async () => {
+    const handler = vi.fn()
+    const route = withPermissionHandler(client, 'test-app', 'admin', handler)
+
+    const response = await route(createRequest('valid-token'), { params: {} })
+
+    expect(response.status).toBe(403)
+    expect(response.headers.get('WWW-Authenticate')).toBeNull()
+    expect(await response.json()).toMatchObject({ vulturCode: 'FORBIDDEN', requiredPermission: 'admin' })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should run the handler when the permission is granted', async () => {
+    const route = withPermissionHandler(client, 'test-app', 'read', async user => NextResponse.json(user))
+
+    const response = await route(createRequest('valid-token'), { params: {} })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual(mockUserInfo)
+  })
+
+  it('should use a custom error body', async () => {
+    const route = withAuthHandler(client, vi.fn(), {
+      errorBody: (error, status) => ({ ok: false, status, reason: error.code }),
+    })
+
+    const response = await route(createRequest(), { params: {} })
+
+    expect(response.headers.get('Content-Type')).toBe('application/json')
+    expect(await response.json()).toEqual({ ok: false, status: 401, reason: 'UNAUTHORIZED' })
+  })
+
+  it('should map upstream failures to 5xx', async () => {
+    const response = await withAuthHandler(client, vi.fn())(createRequest('network-error-token'), { params: {} })
+
+    expect(response.status).toBe(502)
+  })
+
+  it('should not swallow errors thrown by the handler', async () => {
+    const route = withAuthHandler(client, async () => {
+      throw new Error('handler failed')
+    })
+
+    await expect(route(createRequest('valid-token'), { params: {} })).rejects.toThrow('handler failed')
+  })
+})
+
+describe('Pages Router guards', () => {
+  let client: VulturIdentServerClient
+
+  beforeEach(() => {
+    client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL })
+  })
+
+  it('should pass the user to the handler', async () => {
+    const handler = vi.fn((user, req, res: NextApiResponse) => res.status(200).send(JSON.stringify(user)))
+    const res = createApiResponse()
+
+    await withAuthApiHandler(client, handler)(createApiRequest('valid-token'), res as unknown as NextApiResponse)
+
+    expect(res.statusCode).toBe(200)
+    expect(res.body).toEqual(mockUserInfo)
+  })
+
+  it('should answer 401 with a challenge', async () => {
+    const res = createApiResponse()
+
+    await withAuthApiHandler(client, vi.fn())(createApiRequest(), res as unknown as NextApiResponse)
+
+    expect(res.statusCode).toBe(401)
+    expect(res.headers['WWW-Authenticate']).toBe('Bearer realm="vultur"')
+    expect(res.headers['Content-Type']).toBe('application/problem+json')
+    expect(res.body).toMatchObject({ status: 401, vulturCode: 'UNAUTHORIZED' })
+  })
+
+  it('should answer 403 when the permission is missing', async () => {
+    const handler = vi.fn()
+    const res = createApiResponse()
+
+    await withPermissionApiHandler(client, 'test-app', 'admin', handler)(
+      createApiRequest('valid-token'),
+      res as unknown as NextApiResponse
+    )
+
+    expect(res.statusCode).toBe(403)
+    expect(res.body).toMatchObject({
+      status: 403,
+      detail: "Permission 'admin' required",
+      requiredPermission: 'admin',
+    })
+    expect(handler).not.toHaveBeenCalled()
+  })
+})
@@ -1,9 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest'
 import { renderHook, waitFor } from '@testing-library/react'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import React from 'react'
 import { useVulturPermissions, usePermissionCheck, useVulturAuth, PermissionResolver, NoOpPermissionResolver } from '../hooks'
 import { initializeVulturSSO, resetVulturSSOConfig, VulturPermissionConfigBuilder } from '../config'
+import { VulturSSOError } from '../server'
 import { mockUserInfo, mockUserRoles, mockAdminUser } from './mocks/server'
 import type { UserInfo, UserRole, Permission } from '../types'
 
@@ -242,6 +243,117 @@ describe('React Hooks', () => {
     })
   })
 
+  describe('request cancellation', () => {
+    let fetchSpy: MockInstance<Parameters<typeof fetch>, ReturnType<typeof fetch>>
+
+    beforeEach(() => {
+      mockLocalStorage.getItem.mockImplementation((key) => 
+        key === 'vultur_sso_token' ? 'valid-token' : null
+      )
+      fetchSpy = vi.spyOn(global, 'fetch')
+    })
+
+    afterEach(() => {
+      fetchSpy.mockRestore()
+    })
+
+    it('should pass an abort signal to fetch', async () => {
+      const { result } = renderHook(() => useVulturPermissions({ resolver: new TestPermissionResolver() }), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(fetchSpy.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal)
+    })
+
+    it('should abort in-flight requests on unmount', async () => {
+      let requestSignal: AbortSignal | undefined
+      fetchSpy.mockImplementation((_input, init) => {
+        requestSignal = init?.signal ?? undefined
+        return new Promise((_resolve, reject) => {
+          requestSignal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+        })
+      })
+
+      const { unmount } = renderHook(() => useVulturPermissions({ resolver: new TestPermissionResolver() }), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(requestSignal).toBeDefined()
+      })
+      unmount()
+
+      await waitFor(() => {
+        expect(requestSignal?.aborted).toBe(true)
+      })
+    })
+
+    it('should fail with TIMEOUT when the request times out', async () => {
+      resetVulturSSOConfig()
+      initializeVulturSSO({
+        identApiUrl: 'https://api.example.com',
+        applicationName: 'test-app',
+        permissionConfig: VulturPermissionConfigBuilder.create('test-app').build(),
+        requestTimeout: 20,
+      })
+      fetchSpy.mockImplementation((_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+        })
+      )
+
+      const { result } = renderHook(() => useVulturPermissions({ resolver: new TestPermissionResolver() }), {
+        wrapper: createWrapper(),
+      })
+
+      // TIMEOUT is retried by the hook, so inspect the first failure
+      await waitFor(() => {
+        expect(result.current.failureReason).toBeInstanceOf(VulturSSOError)
+      })
+
+      expect(result.current.failureReason?.code).toBe('TIMEOUT')
+      expect(result.current.failureReason?.message).toContain('timed out after 20ms')
+    })
+  })
+
+  describe('transport', () => {
+    it('should use the configured fetch and interceptors', async () => {
+      mockLocalStorage.getItem.mockImplementation((key) => 
+        key === 'vultur_sso_token' ? 'valid-token' : null
+      )
+      const fetchImpl = vi.fn(async (url: string) =>
+        url.endsWith('/me') ? Response.json(mockUserInfo) : Response.json(mockUserRoles)
+      )
+      const onRequest = vi.fn()
+      resetVulturSSOConfig()
+      initializeVulturSSO({
+        identApiUrl: 'https://api.example.com',
+        applicationName: 'test-app',
+        permissionConfig: VulturPermissionConfigBuilder.create('test-app').build(),
+        fetch: fetchImpl,
+        onRequest,
+      })
+
+      const { result } = renderHook(() => useVulturPermissions({ resolver: new TestPermissionResolver() }), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(fetchImpl).toHaveBeenCalledTimes(2)
+      expect(onRequest).toHaveBeenCalledTimes(2)
+      const headers = onRequest.mock.calls[0][0].init.headers
+      expect(headers.get('X-Vultur-Application')).toBe('test-app')
+      expect(headers.get('Authorization')).toBe('Bearer valid-token')
+    })
+  })
+
   describe('usePermissionCheck', () => {
     beforeEach(() => {
       mockLocalStorage.getItem.mockImplementation((key) => 
@@ -325,6 +437,95 @@ describe('React Hooks', () => {
       expect(result.current.isAdmin()).toBe(true)
     })
 
+    it('should evaluate wildcards with the resolver combining algorithm', async () => {
+      mockLocalStorage.getItem.mockImplementation((key) => 
+        key === 'vultur_sso_token' ? 'valid-token' : null
+      )
+
+      class ConflictingResolver extends PermissionResolver {
+        resolveUserPermissions(): Permission[] {
+          return [
+            { scope: { id: 'test:*', name: 'All', resource: 'test', action: '*' }, effect: 'allow' },
+            { scope: { id: 'test:admin', name: 'Test Admin', resource: 'test', action: 'admin' }, effect: 'deny' },
+          ]
+        }
+      }
+
+      const denyOverrides = renderHook(() => usePermissionCheck(new ConflictingResolver('test-app')), {
+        wrapper: createWrapper(),
+      })
+      const allowOverrides = renderHook(
+        () => usePermissionCheck(new ConflictingResolver('test-app', { combiningAlgorithm: 'allow-overrides' })),
+        { wrapper: createWrapper() }
+      )
+
+      await waitFor(() => {
+        expect(denyOverrides.result.current.userPermissions).toBeDefined()
+        expect(allowOverrides.result.current.userPermissions).toBeDefined()
+      })
+
+      expect(denyOverrides.result.current.hasPermission('test:read')).toBe(true)
+      expect(denyOverrides.result.current.hasPermission('test:admin')).toBe(false)
+      expect(allowOverrides.result.current.hasPermission('test:admin')).toBe(true)
+    })
+
+    it('should evaluate conditions against a resource', async () => {
+      mockLocalStorage.getItem.mockImplementation((key) => 
+        key === 'vultur_sso_token' ? 'valid-token' : null
+      )
+
+      class TribeResolver extends PermissionResolver {
+        resolveUserPermissions(): Permission[] {
+          return [
+            {
+              scope: { id: 'test:write', name: 'Test Write', resource: 'test', action: 'write' },
+              effect: 'allow',
+              conditions: ['resource.tribe_id == user.tribe_id'],
+            },
+          ]
+        }
+      }
+
+      const { result } = renderHook(() => usePermissionCheck(new TribeResolver('test-app')), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.userPermissions).toBeDefined()
+      })
+
+      expect(result.current.hasPermission('test:write', { resource: { tribe_id: 12345 } })).toBe(true)
+      expect(result.current.hasPermission('test:write', { resource: { tribe_id: 1 } })).toBe(false)
+      expect(result.current.hasPermission('test:write')).toBe(false)
+      expect(result.current.hasAllPermissions(['test:write'], { resource: { tribe_id: 12345 } })).toBe(true)
+    })
+
+    it('should filter resources by instance grants', async () => {
+      mockLocalStorage.getItem.mockImplementation((key) => 
+        key === 'vultur_sso_token' ? 'valid-token' : null
+      )
+
+      class DepotResolver extends PermissionResolver {
+        resolveUserPermissions(): Permission[] {
+          return [
+            { scope: { id: 'test:write', name: 'Test Write', resource: 'test', action: 'write' }, effect: 'allow', resourceId: '42' },
+          ]
+        }
+      }
+
+      const { result } = renderHook(() => usePermissionCheck(new DepotResolver('test-app')), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.userPermissions).toBeDefined()
+      })
+
+      const warehouses = [{ id: 42 }, { id: 43 }]
+      expect(result.current.hasPermission('test:write', { resourceId: 42 })).toBe(true)
+      expect(result.current.filterPermitted('test:write', warehouses)).toEqual([{ id: 42 }])
+    })
+
     it('should handle no user permissions', () => {
       mockLocalStorage.getItem.mockReturnValue(null)
 
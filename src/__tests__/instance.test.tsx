@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { renderHook, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import React from 'react'
+import { createVulturSSO } from '../instance'
+import {
+  initializeVulturSSO,
+  getVulturSSOConfig,
+  resetVulturSSOConfig,
+  VulturPermissionConfigBuilder,
+  PermissionPatterns,
+} from '../config'
+import { RoleMappingPermissionResolver } from '../permissions'
+import { mockUserInfo } from './mocks/server'
+import type { VulturSSOClientConfig } from '../types'
+
+const mockLocalStorage = {
+  getItem: vi.fn(),
+  setItem: vi.fn(),
+  removeItem: vi.fn(),
+  clear: vi.fn(),
+}
+
+Object.defineProperty(window, 'localStorage', {
+  value: mockLocalStorage,
+  writable: true,
+})
+
+const createConfig = (applicationName: string, identApiUrl = 'https://api.example.com'): VulturSSOClientConfig => ({
+  identApiUrl,
+  applicationName,
+  permissionConfig: VulturPermissionConfigBuilder
+    .create(applicationName, '1.0.0')
+    .addPermissionScopes(PermissionPatterns.crud('fleet'))
+    .build(),
+})
+
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+        gcTime: 0,
+        staleTime: 0,
+      },
+    },
+  })
+
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  )
+}
+
+describe('createVulturSSO', () => {
+  beforeEach(() => {
+    resetVulturSSOConfig()
+    mockLocalStorage.getItem.mockImplementation((key) =>
+      key === 'vultur_sso_token' ? 'valid-token' : null
+    )
+  })
+
+  it('should validate the configuration and fill in defaults', () => {
+    const sso = createVulturSSO(createConfig('fleet-manager'))
+
+    expect(sso.config.applicationName).toBe('fleet-manager')
+    expect(sso.config.enableCache).toBe(true)
+    expect(sso.config.cacheDuration).toBe(5 * 60 * 1000)
+    expect(sso.getPermissionConfig().applicationName).toBe('fleet-manager')
+
+    expect(() => createVulturSSO({ ...createConfig('fleet-manager'), identApiUrl: '' })).toThrow(
+      'identApiUrl is required in VulturSSOClientConfig'
+    )
+  })
+
+  it('should not touch the global configuration', () => {
+    createVulturSSO(createConfig('fleet-manager'))
+
+    expect(() => getVulturSSOConfig()).toThrow('VULTUR SSO Client not initialized')
+  })
+
+  it('should keep instances isolated from each other and from the default instance', () => {
+    initializeVulturSSO(createConfig('default-app'))
+    const fleet = createVulturSSO(createConfig('fleet-manager'))
+    const market = createVulturSSO(createConfig('market', 'https://market.example.com'))
+
+    expect(fleet.config.applicationName).toBe('fleet-manager')
+    expect(market.config.applicationName).toBe('market')
+    expect(market.config.identApiUrl).toBe('https://market.example.com')
+    expect(getVulturSSOConfig().applicationName).toBe('default-app')
+
+    resetVulturSSOConfig()
+    expect(fleet.getPermissionConfig().applicationName).toBe('fleet-manager')
+  })
+
+  it('should serve its own permission configuration from the well-known handlers', async () => {
+    const sso = createVulturSSO(createConfig('fleet-manager'))
+
+    const response = await sso.createPermissionsHandler()(
+      new Request('https://example.com/.well-known/vultur-permissions') as any
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.applicationName).toBe('fleet-manager')
+    expect(body.permissions.map((scope: { id: string }) => scope.id)).toContain('fleet:read')
+
+    const res = {
+      setHeader: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    }
+    await sso.createPermissionsApiHandler()({ method: 'GET' } as any, res as any)
+
+    expect(res.status).toHaveBeenCalledWith(200)
+    expect(res.json).toHaveBeenCalledWith(sso.getPermissionConfig())
+  })
+
+  it('should create one server client from its configuration', async () => {
+    const fetch = vi.fn(globalThis.fetch)
+    const sso = createVulturSSO({ ...createConfig('fleet-manager'), fetch }, { server: { cacheTTL: 0 } })
+
+    expect(sso.serverClient).toBe(sso.serverClient)
+
+    const user = await sso.serverClient.validateToken('valid-token')
+
+    expect(user).toEqual(mockUserInfo)
+    const [url, init] = fetch.mock.calls[0]
+    expect(String(url)).toBe('https://api.example.com/me')
+    expect(new Headers(init?.headers).get('X-Vultur-Application')).toBe('fleet-manager')
+  })
+
+  it('should bind its hooks to its own configuration', async () => {
+    const config = createConfig('fleet-manager')
+    const sso = createVulturSSO(config)
+    const resolver = new RoleMappingPermissionResolver(config.permissionConfig, {
+      roles: { 'Fleet Member': ['fleet:read'] },
+    })
+
+    const { result } = renderHook(() => sso.usePermissionCheck(resolver), {
+      wrapper: createWrapper(),
+    })
+
+    await waitFor(() => {
+      expect(result.current.userPermissions).toBeDefined()
+    })
+
+    expect(result.current.hasPermission('fleet:read')).toBe(true)
+    expect(result.current.hasPermission('fleet:delete')).toBe(false)
+  })
+
+  it('should keep separate permission queries per instance', async () => {
+    const fleet = createVulturSSO(createConfig('fleet-manager'))
+    const market = createVulturSSO(createConfig('market'))
+    const fleetResolver = new RoleMappingPermissionResolver(fleet.config.permissionConfig, {
+      roles: { 'Fleet Member': ['fleet:read'] },
+    })
+    const marketResolver = new RoleMappingPermissionResolver(market.config.permissionConfig, {
+      roles: { 'Fleet Member': ['fleet:delete'] },
+    })
+
+    const { result } = renderHook(
+      () => ({
+        fleet: fleet.usePermissionCheck(fleetResolver),
+        market: market.usePermissionCheck(marketResolver),
+      }),
+      { wrapper: createWrapper() }
+    )
+
+    await waitFor(() => {
+      expect(result.current.fleet.userPermissions).toBeDefined()
+      expect(result.current.market.userPermissions).toBeDefined()
+    })
+
+    expect(result.current.fleet.hasPermission('fleet:delete')).toBe(false)
+    expect(result.current.market.hasPermission('fleet:delete')).toBe(true)
+  })
+})
@@ -0,0 +1,322 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import {
+  JwtVerifier,
+  JwtClaims,
+  base64UrlEncode,
+  base64UrlDecode,
+  decodeJwt,
+  mapJwtClaimsToUserInfo,
+  selectKey,
+} from '../jwt'
+import { VulturIdentServerClient, VulturSSOError } from '../server'
+import { server, mockUserInfo } from './mocks/server'
+import { TestKey, createEcKey, createRsaKey } from './mocks/keys'
+
+const TEST_API_URL = 'https://api.example.com'
+
+async function signToken(key: TestKey, claims: JwtClaims, alg = key.jwk.alg!): Promise<string> {
+  const header = base64UrlEncode(JSON.stringify({ alg, typ: 'JWT', kid: key.jwk.kid }))
+  const payload = base64UrlEncode(JSON.stringify(claims))
+  const params = alg.startsWith('ES')
+    ? { name: 'ECDSA', hash: 'SHA-256' }
+    : { name: 'RSASSA-PKCS1-v1_5' }
+  const signature = await crypto.subtle.sign(
+    params,
+    key.privateKey,
+    new TextEncoder().encode(`${header}.${payload}`)
+  )
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+const now = () => Math.floor(Date.now() / 1000)
+
+const hangingFetch = vi.fn((_input: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+  })
+)
+
+const validClaims = (): JwtClaims => ({
+  sub: mockUserInfo.eth_address,
+  character_name: mockUserInfo.character_name,
+  roles: mockUserInfo.roles,
+  is_admin: false,
+  tribe_id: mockUserInfo.tribe_id,
+  iss: 'https://api.example.com',
+  aud: 'test-app',
+  exp: now() + 600,
+})
+
+let rsaKey: TestKey
+let ecKey: TestKey
+
+beforeAll(async () => {
+  rsaKey = await createRsaKey('rsa-1')
+  ecKey = await createEcKey('ec-1')
+})
+
+describe('base64url helpers', () => {
+  it('should round-trip bytes', () => {
+    const bytes = new Uint8Array([0, 251, 255, 62, 63])
+    expect(Array.from(base64UrlDecode(base64UrlEncode(bytes)))).toEqual(Array.from(bytes))
+  })
+
+  it('should throw UNAUTHORIZED for malformed tokens', () => {
+    expect(() => decodeJwt('not-a-jwt')).toThrow(VulturSSOError)
+    expect(() => decodeJwt('a.b.c')).toThrow(
+      expect.objectContaining({ code: 'UNAUTHORIZED', message: 'Malformed token' })
+    )
+  })
+})
+
+describe('selectKey', () => {
+  it('should pick the key named by kid, or the only matching key', () => {
+    const keys = [rsaKey.jwk, ecKey.jwk, { ...ecKey.jwk, kid: 'ec-enc', use: 'enc' }]
+
+    expect(selectKey(keys, 'ec-1', 'ES256', 'EC')).toBe(ecKey.jwk)
+    expect(selectKey(keys, 'ec-1', 'RS256', 'RSA')).toBeNull()
+    expect(selectKey(keys, undefined, 'RS256', 'RSA')).toBe(rsaKey.jwk)
+    expect(selectKey([...keys, ecKey.jwk], undefined, 'ES256', 'EC')).toBeNull()
+  })
+})
+
+describe('mapJwtClaimsToUserInfo', () => {
+  it('should map VULTUR claims into UserInfo', () => {
+    expect(mapJwtClaimsToUserInfo(validClaims())).toEqual(mockUserInfo)
+  })
+
+  it('should prefer eth_address over sub', () => {
+    const user = mapJwtClaimsToUserInfo({ sub: 'subject', eth_address: '0xabc' })
+    expect(user.eth_address).toBe('0xabc')
+    expect(user.roles).toEqual([])
+    expect(user.tribe_id).toBeNull()
+  })
+
+  it('should reject claims without a user identifier', () => {
+    expect(() => mapJwtClaimsToUserInfo({})).toThrow(
+      expect.objectContaining({ code: 'UNAUTHORIZED' })
+    )
+  })
+})
+
+describe('JwtVerifier', () => {
+  describe('with a static JWKS', () => {
+    let verifier: JwtVerifier
+
+    beforeEach(() => {
+      verifier = new JwtVerifier(
+        {
+          jwks: { keys: [rsaKey.jwk, ecKey.jwk] },
+          issuer: 'https://api.example.com',
+          audience: ['test-app', 'other-app'],
+        },
+        TEST_API_URL
+      )
+    })
+
+    it('should verify RS256 tokens', async () => {
+      const claims = validClaims()
+      expect(await verifier.verify(await signToken(rsaKey, claims))).toEqual(claims)
+    })
+
+    it('should verify ES256 tokens', async () => {
+      const claims = validClaims()
+      expect(await verifier.verify(await signToken(ecKey, claims))).toEqual(claims)
+    })
+
+    it('should reject tokens with an invalid signature', async () => {
+      const token = await signToken(rsaKey, validClaims())
+      const [header, , signature] = token.split('.')
+      const tampered = `${header}.${base64UrlEncode(JSON.stringify({ ...validClaims(), is_admin: true }))}.${signature}`
+
+      await expect(verifier.verify(tampered)).rejects.toThrow(
+        expect.objectContaining({ code: 'UNAUTHORIZED', message: 'Invalid token signature' })
+      )
+    })
+
+    it('should reject expired tokens', async () => {
+      const token = await signToken(rsaKey, { ...validClaims(), exp: now() - 120 })
+
+      await expect(verifier.verify(token)).rejects.toThrow(
+        expect.objectContaining({ code: 'TOKEN_EXPIRED', message: 'Token has expired' })
+      )
+    })
+
+    it('should tolerate expiry within the clock skew', async () => {
+      const token = await signToken(rsaKey, { ...validClaims(), exp: now() - 10 })
+      expect(await verifier.verify(token)).not.toBeNull()
+    })
+
+    it('should reject tokens that are not yet valid', async () => {
+      const token = await signToken(rsaKey, { ...validClaims(), nbf: now() + 120 })
+
+      await expect(verifier.verify(token)).rejects.toThrow(
+        expect.objectContaining({ message: 'Token is not yet valid' })
+      )
+    })
+
+    it('should reject untrusted issuers', async () => {
+      const token = await signToken(rsaKey, { ...validClaims(), iss: 'https://evil.example.com' })
+
+      await expect(verifier.verify(token)).rejects.toThrow(
+        expect.objectContaining({ message: 'Token issuer is not trusted' })
+      )
+    })
+
+    it('should reject tokens for other audiences', async () => {
+      const token = await signToken(rsaKey, { ...validClaims(), aud: ['someone-else'] })
+
+      await expect(verifier.verify(token)).rejects.toThrow(
+        expect.objectContaining({ message: 'Token audience is not accepted' })
+      )
+    })
+
+    it('should return null for tokens it cannot verify', async () => {
+      const unknownKey = await createRsaKey('rsa-unknown')
+
+      expect(await verifier.verify('valid-token')).toBeNull()
+      expect(await verifier.verify(await signToken(unknownKey, validClaims()))).toBeNull()
+      expect(await verifier.verify(await signToken(rsaKey, validClaims(), 'HS256'))).toBeNull()
+    })
+  })
+
+  describe('with a remote JWKS', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should fetch keys from the ident API', async () => {
+      server.use(
+        http.get('*/.well-known/jwks.json', () => HttpResponse.json({ keys: [rsaKey.jwk] }))
+      )
+      const verifier = new JwtVerifier({}, TEST_API_URL)
+
+      expect(await verifier.verify(await signToken(rsaKey, validClaims()))).not.toBeNull()
+    })
+
+    it('should refetch keys when it sees an unknown kid', async () => {
+      const rotatedKey = await createRsaKey('rsa-2')
+      let keys = [rsaKey.jwk]
+      const jwksHandler = vi.fn(() => HttpResponse.json({ keys }))
+      server.use(http.get('*/.well-known/jwks.json', jwksHandler))
+      const verifier = new JwtVerifier({ jwksRefreshCooldown: 0 }, TEST_API_URL)
+
+      await verifier.verify(await signToken(rsaKey, validClaims()))
+      keys = [rsaKey.jwk, rotatedKey.jwk]
+
+      expect(await verifier.verify(await signToken(rotatedKey, validClaims()))).not.toBeNull()
+      expect(jwksHandler).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not refetch keys within the cooldown', async () => {
+      const jwksHandler = vi.fn(() => HttpResponse.json({ keys: [rsaKey.jwk] }))
+      server.use(http.get('*/.well-known/jwks.json', jwksHandler))
+      const verifier = new JwtVerifier({}, TEST_API_URL)
+      const unknownKey = await createRsaKey('rsa-unknown')
+
+      expect(await verifier.verify(await signToken(unknownKey, validClaims()))).toBeNull()
+      expect(await verifier.verify(await signToken(unknownKey, validClaims()))).toBeNull()
+      expect(jwksHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('should give up on a hung JWKS fetch after the timeout', async () => {
+      const verifier = new JwtVerifier({}, TEST_API_URL, hangingFetch, 20)
+
+      expect(await verifier.verify(await signToken(rsaKey, validClaims()))).toBeNull()
+      expect(hangingFetch.mock.calls[0][1]?.signal?.aborted).toBe(true)
+    })
+
+    it('should stop waiting for the JWKS when the caller aborts', async () => {
+      const verifier = new JwtVerifier({}, TEST_API_URL, hangingFetch, 1000)
+      const controller = new AbortController()
+
+      const pending = verifier.verify(await signToken(rsaKey, validClaims()), { signal: controller.signal })
+      controller.abort()
+
+      await expect(pending).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }))
+    })
+
+    it('should return null when the JWKS is unavailable', async () => {
+      server.use(
+        http.get('*/.well-known/jwks.json', () => new HttpResponse(null, { status: 503 }))
+      )
+      const verifier = new JwtVerifier({ jwksUrl: 'https://keys.example.com/.well-known/jwks.json' }, TEST_API_URL)
+
+      expect(await verifier.verify(await signToken(rsaKey, validClaims()))).toBeNull()
+    })
+  })
+})
+
+describe('VulturIdentServerClient with jwtVerification', () => {
+  it('should validate tokens locally without calling /me', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch')
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      jwtVerification: { jwks: { keys: [rsaKey.jwk] } },
+    })
+
+    const user = await client.validateToken(await signToken(rsaKey, validClaims()))
+
+    expect(user).toEqual(mockUserInfo)
+    expect(fetchSpy).not.toHaveBeenCalled()
+    fetchSpy.mockRestore()
+  })
+
+  it('should use a custom claim mapper', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      jwtVerification: {
+        jwks: { keys: [rsaKey.jwk] },
+        mapClaims: claims => ({ ...mapJwtClaimsToUserInfo(claims), is_admin: true }),
+      },
+    })
+
+    const user = await client.validateToken(await signToken(rsaKey, validClaims()))
+    expect(user.is_admin).toBe(true)
+  })
+
+  it('should fall back to /me for tokens it cannot verify', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      jwtVerification: { jwks: { keys: [rsaKey.jwk] } },
+    })
+
+    expect(await client.validateToken('valid-token')).toEqual(mockUserInfo)
+  })
+
+  it('should not fall back to /me for invalid tokens', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      jwtVerification: { jwks: { keys: [rsaKey.jwk] } },
+    })
+    const token = await signToken(rsaKey, { ...validClaims(), exp: now() - 120 })
+
+    await expect(client.validateToken(token)).rejects.toThrow(
+      expect.objectContaining({ code: 'TOKEN_EXPIRED', message: 'Token has expired' })
+    )
+  })
+
+  it('should bound the JWKS fetch by the request timeout', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      fetch: hangingFetch,
+      jwtVerification: { fallbackToRemote: false },
+    })
+
+    await expect(client.validateToken(await signToken(rsaKey, validClaims()), { timeout: 20 })).rejects.toThrow(
+      expect.objectContaining({ code: 'TIMEOUT' })
+    )
+  })
+
+  it('should reject unverifiable tokens when fallback is disabled', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      jwtVerification: { jwks: { keys: [rsaKey.jwk] }, fallbackToRemote: false },
+    })
+
+    await expect(client.validateToken('valid-token')).rejects.toThrow(
+      expect.objectContaining({ code: 'UNAUTHORIZED', message: 'Token could not be verified' })
+    )
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { loadVulturConfig } from '../loader'
+import { VulturPermissionConfigBuilder, PermissionPatterns } from '../config'
+
+const fileConfig = {
+  identApiUrl: 'https://ident.example.com',
+  applicationName: 'test-app',
+  cacheDuration: 60000,
+  permissionConfig: {
+    version: '1.0.0',
+    permissions: PermissionPatterns.crud('fleet'),
+    defaultPermissions: [{ scope: 'fleet:read', effect: 'allow' }],
+  },
+  environments: {
+    production: {
+      identApiUrl: 'https://ident.vultur.example',
+      permissionConfig: { defaultPermissions: [] },
+    },
+  },
+}
+
+describe('loadVulturConfig', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'vultur-config-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should load vultur.config.json and resolve default permissions by id', async () => {
+    writeFileSync(join(dir, 'vultur.config.json'), JSON.stringify(fileConfig))
+
+    const config = await loadVulturConfig({ cwd: dir, env: {} })
+
+    expect(config.identApiUrl).toBe('https://ident.example.com')
+    expect(config.cacheDuration).toBe(60000)
+    expect(config.permissionConfig.applicationName).toBe('test-app')
+    expect(config.permissionConfig.defaultPermissions).toEqual([
+      { scope: PermissionPatterns.crud('fleet')[0], effect: 'allow' },
+    ])
+    expect(Date.parse(config.permissionConfig.lastUpdated)).not.toBeNaN()
+  })
+
+  it('should load YAML and apply the environment overlay', async () => {
+    writeFileSync(
+      join(dir, 'vultur.config.yaml'),
+      [
+        'identApiUrl: https://ident.example.com',
+        'applicationName: test-app',
+        'permissionConfig:',
+        '  version: 1.2.0',
+        '  permissions:',
+        '    - { id: tribes:read, name: View Tribes, resource: tribes, action: read }',
+        'environments:',
+        '  staging:',
+        '    identApiUrl: https://ident.staging.example.com',
+        '    enableCache: false',
+      ].join('\n')
+    )
+
+    const config = await loadVulturConfig({ cwd: dir, env: { VULTUR_ENV: 'staging' } })
+
+    expect(config.identApiUrl).toBe('https://ident.staging.example.com')
+    expect(config.enableCache).toBe(false)
+    expect(config.permissionConfig.permissions.map(scope => scope.id)).toEqual(['tribes:read'])
+  })
+
+  it('should let VULTUR_* variables override the file and overlay', async () => {
+    const path = join(dir, 'custom.json')
+    writeFileSync(path, JSON.stringify(fileConfig))
+
+    const config = await loadVulturConfig({
+      path,
+      environment: 'production',
+      env: {
+        VULTUR_CACHE_DURATION: '1000',
+        VULTUR_ENABLE_CACHE: 'false',
+        VULTUR_DEFAULT_PERMISSIONS: 'fleet:write, fleet:delete=deny',
+      },
+    })
+
+    expect(config.identApiUrl).toBe('https://ident.vultur.example')
+    expect(config.cacheDuration).toBe(1000)
+    expect(config.enableCache).toBe(false)
+    expect(config.permissionConfig.defaultPermissions?.map(p => [p.scope.id, p.effect])).toEqual([
+      ['fleet:write', 'allow'],
+      ['fleet:delete', 'deny'],
+    ])
+  })
+
+  it('should layer the file over settings defined in code', async () => {
+    const permissionConfig = VulturPermissionConfigBuilder.create('test-app')
+      .addPermissionScopes(PermissionPatterns.tribal('tribe'))
+      .build()
+
+    const config = await loadVulturConfig({
+      cwd: dir,
+      env: { VULTUR_IDENT_API_URL: 'https://ident.example.com', VULTUR_APPLICATION_NAME: 'test-app' },
+      defaults: { permissionConfig, requestTimeout: 5000 },
+    })
+
+    expect(config.requestTimeout).toBe(5000)
+    expect(config.permissionConfig).toEqual(permissionConfig)
+  })
+
+  it('should reject invalid settings with CONFIG_ERROR', async () => {
+    const path = join(dir, 'vultur.config.json')
+
+    writeFileSync(path, JSON.stringify({ ...fileConfig, cacheDuration: '5 minutes' }))
+    await expect(loadVulturConfig({ path, env: {} })).rejects.toThrow(`${path}: cacheDuration must be a number`)
+
+    writeFileSync(path, JSON.stringify(fileConfig))
+    await expect(loadVulturConfig({ path, env: { VULTUR_REQUEST_TIMEOUT: 'soon' } })).rejects.toThrow(
+      "VULTUR_REQUEST_TIMEOUT must be a number, got 'soon'"
+    )
+    await expect(loadVulturConfig({ path, env: { VULTUR_DEFAULT_PERMISSIONS: 'tribe:read' } })).rejects.toThrow(
+      "Default permission references unknown scope 'tribe:read'"
+    )
+
+    writeFileSync(path, '{ not json')
+    await expect(loadVulturConfig({ path, env: {} })).rejects.toThrow(
+      expect.objectContaining({ code: 'CONFIG_ERROR', message: expect.stringContaining(`Could not parse ${path}`) })
+    )
+  })
+
+  it('should reject malformed permission entries with CONFIG_ERROR', async () => {
+    const path = join(dir, 'vultur.config.json')
+    const write = (permissionConfig: object) =>
+      writeFileSync(path, JSON.stringify({ ...fileConfig, permissionConfig: { ...fileConfig.permissionConfig, ...permissionConfig } }))
+
+    write({ defaultPermissions: [{ scope: 'fleet:read', effect: 'allwo' }] })
+    await expect(loadVulturConfig({ path, env: {} })).rejects.toThrow(
+      expect.objectContaining({
+        code: 'CONFIG_ERROR',
+        message: `${path}: permissionConfig.defaultPermissions[0].effect must be allow or deny, got 'allwo'`,
+      })
+    )
+
+    write({ defaultPermissions: [null] })
+    await expect(loadVulturConfig({ path, env: {} })).rejects.toThrow(
+      expect.objectContaining({ code: 'CONFIG_ERROR', message: `${path}: permissionConfig.defaultPermissions[0] must be an object` })
+    )
+
+    write({ defaultPermissions: [{ scope: 42, effect: 'allow' }] })
+    await expect(loadVulturConfig({ path, env: {} })).rejects.toThrow(
+      `${path}: permissionConfig.defaultPermissions[0].scope must be a scope id or a scope`
+    )
+
+    write({ permissions: [null] })
+    await expect(loadVulturConfig({ path, env: {} })).rejects.toThrow(
+      expect.objectContaining({ code: 'CONFIG_ERROR', message: expect.stringContaining(`${path}: Invalid permission configuration`) })
+    )
+  })
+
+  it('should require identApiUrl and a permission config', async () => {
+    await expect(loadVulturConfig({ cwd: dir, env: {} })).rejects.toThrow(
+      'VULTUR_* environment variables: identApiUrl is required (or set VULTUR_IDENT_API_URL)'
+    )
+    await expect(
+      loadVulturConfig({
+        cwd: dir,
+        env: { VULTUR_IDENT_API_URL: 'https://ident.example.com', VULTUR_APPLICATION_NAME: 'test-app' },
+      })
+    ).rejects.toThrow('permissionConfig is required')
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { compileRoutePattern, createVulturEdgeMiddleware } from '../middleware'
+import { VulturIdentServerClient } from '../server'
+
+const TEST_API_URL = 'https://api.example.com'
+
+function createRequest(path: string, token?: string): NextRequest {
+  return new NextRequest(`https://app.example.com${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  })
+}
+
+describe('compileRoutePattern', () => {
+  it('should match named segments and wildcards', () => {
+    expect(compileRoutePattern('/fleet/:id').test('/fleet/42')).toBe(true)
+    expect(compileRoutePattern('/fleet/:id').test('/fleet/42/ships')).toBe(false)
+    expect(compileRoutePattern('/fleet/:path*').test('/fleet')).toBe(true)
+    expect(compileRoutePattern('/fleet/:path*').test('/fleet/42/ships')).toBe(true)
+    expect(compileRoutePattern('/fleet/:path+').test('/fleet')).toBe(false)
+    expect(compileRoutePattern('/admin/*').test('/admin/users/1')).toBe(true)
+    expect(compileRoutePattern('/admin/*').test('/administrator')).toBe(false)
+  })
+
+  it('should treat other characters literally', () => {
+    expect(compileRoutePattern('/v1.0/status').test('/v1.0/status/')).toBe(true)
+    expect(compileRoutePattern('/v1.0/status').test('/v100/status')).toBe(false)
+  })
+})
+
+describe('createVulturEdgeMiddleware', () => {
+  let middleware: ReturnType<typeof createVulturEdgeMiddleware>
+
+  beforeEach(() => {
+    const client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL })
+    middleware = createVulturEdgeMiddleware(client, {
+      applicationName: 'test-app',
+      routes: {
+        '/fleet/:path*': 'test:read',
+        '/warehouse/*': { role: 'Warehouse Worker' },
+        '/admin/*': { role: 'Administrator' },
+        '/api/admin/:path*': { admin: true },
+        '/api/fleet/:path*': 'test:admin',
+        '/account': true,
+      },
+    })
+  })
+
+  it('should let unprotected paths through', async () => {
+    const response = await middleware(createRequest('/about'))
+
+    expect(response.headers.get('x-middleware-next')).toBe('1')
+  })
+
+  it('should let authorized requests through', async () => {
+    for (const path of ['/fleet/42', '/warehouse/bay-1', '/account']) {
+      const response = await middleware(createRequest(path, 'valid-token'))
+      expect(response.headers.get('x-middleware-next')).toBe('1')
+    }
+  })
+
+  it('should redirect unauthenticated page requests to login', async () => {
+    const response = await middleware(createRequest('/fleet/42?tab=ships'))
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('Location')).toBe(
+      'https://app.example.com/login?returnTo=%2Ffleet%2F42%3Ftab%3Dships'
+    )
+  })
+
+  it('should redirect requests with a rejected token to login', async () => {
+    const response = await middleware(createRequest('/account', 'invalid-token'))
+
+    expect(response.status).toBe(307)
+  })
+
+  it('should answer 401 for unauthenticated API requests', async () => {
+    const response = await middleware(createRequest('/api/fleet/42'))
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer realm="vultur"')
+  })
+
+  it('should answer 403 when a permission is missing', async () => {
+    const response = await middleware(createRequest('/api/fleet/42', 'valid-token'))
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ requiredPermission: 'test:admin' })
+  })
+
+  it('should answer 403 when a role or admin access is missing', async () => {
+    expect((await middleware(createRequest('/admin/users', 'valid-token'))).status).toBe(403)
+    expect((await middleware(createRequest('/api/admin/users', 'valid-token'))).status).toBe(403)
+    expect((await middleware(createRequest('/api/admin/users', 'admin-token'))).headers.get('x-middleware-next')).toBe(
+      '1'
+    )
+  })
+
+  it('should use a custom login URL and API detection', async () => {
+    const client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL })
+    const custom = createVulturEdgeMiddleware(client, {
+      applicationName: 'test-app',
+      routes: { '/rpc/*': true, '/dashboard': true },
+      loginUrl: 'https://sso.example.com/login',
+      returnToParam: 'next',
+      isApiRequest: request => request.nextUrl.pathname.startsWith('/rpc'),
+    })
+
+    expect((await custom(createRequest('/rpc/call'))).status).toBe(401)
+    expect((await custom(createRequest('/dashboard'))).headers.get('Location')).toBe(
+      'https://sso.example.com/login?next=%2Fdashboard'
+    )
+  })
+})
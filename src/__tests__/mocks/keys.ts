@@ -0,0 +1,35 @@
+/**
+ * Signing key pairs for JWT and JWS tests
+ */
+export type TestKey = {
+  privateKey: CryptoKey
+  privateJwk: JsonWebKey
+  jwk: JsonWebKey & { kid: string }
+}
+
+async function exportTestKey(pair: CryptoKeyPair, kid: string, alg: string): Promise<TestKey> {
+  return {
+    privateKey: pair.privateKey,
+    privateJwk: { ...(await crypto.subtle.exportKey('jwk', pair.privateKey)), kid, alg } as JsonWebKey,
+    jwk: { ...(await crypto.subtle.exportKey('jwk', pair.publicKey)), kid, alg, use: 'sig' },
+  }
+}
+
+export async function createRsaKey(kid: string): Promise<TestKey> {
+  const pair = await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify']
+  )
+  return exportTestKey(pair, kid, 'RS256')
+}
+
+export async function createEcKey(kid: string): Promise<TestKey> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+  return exportTestKey(pair, kid, 'ES256')
+}
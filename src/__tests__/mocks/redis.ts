@@ -0,0 +1,71 @@
+import type { RedisCommandClient } from '../../cache'
+
+/**
+ * Local stand-in for a Redis server, implementing the commands used by RedisCacheStore
+ */
+export class FakeRedis implements RedisCommandClient {
+  public commands: string[][] = []
+  private data = new Map<string, { value: string | Set<string>; expiresAt: number | null }>()
+
+  async sendCommand(args: string[]): Promise<unknown> {
+    this.commands.push(args)
+    const [command, key, ...rest] = args
+
+    switch (command.toUpperCase()) {
+      case 'GET': {
+        const entry = this.live(key)
+        return entry ? entry.value : null
+      }
+      case 'SET': {
+        const pxIndex = rest.findIndex(arg => arg.toUpperCase() === 'PX')
+        const expiresAt = pxIndex >= 0 ? Date.now() + Number(rest[pxIndex + 1]) : null
+        this.data.set(key, { value: rest[0], expiresAt })
+        return 'OK'
+      }
+      case 'DEL':
+        return [key, ...rest].filter(name => this.data.delete(name)).length
+      case 'SCAN': {
+        // Everything in one page; MATCH supports escaped characters and `*`
+        const matchIndex = rest.findIndex(arg => arg.toUpperCase() === 'MATCH')
+        const pattern = matchIndex >= 0 ? rest[matchIndex + 1] : '*'
+        const source = pattern.replace(/\\(.)|([.+^${}()|[\]\\?])|(\*)/g, (_match, escaped, special, star) =>
+          star ? '.*' : `\\${escaped ?? special}`
+        )
+        return ['0', this.keys().filter(name => new RegExp(`^${source}$`).test(name))]
+      }
+      case 'SADD': {
+        const entry = this.live(key) ?? { value: new Set<string>(), expiresAt: null }
+        const members = entry.value as Set<string>
+        const added = rest.filter(member => !members.has(member))
+        added.forEach(member => members.add(member))
+        this.data.set(key, entry)
+        return added.length
+      }
+      case 'SMEMBERS': {
+        const entry = this.live(key)
+        return entry ? Array.from(entry.value as Set<string>) : []
+      }
+      case 'PEXPIRE': {
+        const entry = this.live(key)
+        if (!entry) return 0
+        entry.expiresAt = Date.now() + Number(rest[0])
+        return 1
+      }
+      default:
+        throw new Error(`ERR unknown command '${command}'`)
+    }
+  }
+
+  private live(key: string) {
+    const entry = this.data.get(key)
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.data.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  keys(): string[] {
+    return Array.from(this.data.keys())
+  }
+}
@@ -0,0 +1,348 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  PermissionResolver,
+  RoleMappingPermissionResolver,
+  buildImplicationGraph,
+  evaluatePermissions,
+  getResourceId,
+  hasPermissionEffect,
+  scopeMatches,
+} from '../permissions'
+import type { Permission, PermissionEffect, UserRole, VulturPermissionConfig } from '../types'
+import { PermissionPatterns, VulturPermissionConfigBuilder, initializeVulturSSO, resetVulturSSOConfig } from '../config'
+import { mockUserInfo, mockAdminUser, mockUserRoles } from './mocks/server'
+
+const permissionConfig: VulturPermissionConfig = {
+  applicationName: 'test-app',
+  version: '1.0.0',
+  permissions: [
+    { id: 'fleet:read', name: 'Read Fleet', resource: 'fleet', action: 'read' },
+    { id: 'fleet:write', name: 'Write Fleet', resource: 'fleet', action: 'write' },
+    { id: 'warehouse:read', name: 'Read Warehouse', resource: 'warehouse', action: 'read' },
+    { id: 'warehouse:pick', name: 'Pick Items', resource: 'warehouse', action: 'pick' },
+    { id: 'admin:users', name: 'Manage Users', resource: 'admin', action: 'users' },
+  ],
+  lastUpdated: '2024-01-01T00:00:00Z',
+}
+
+const scopeIds = (permissions: { scope: { id: string } }[]) => permissions.map(p => p.scope.id)
+
+describe('hasPermissionEffect', () => {
+  it('should match the first permission for a scope', () => {
+    const permissions = [
+      { scope: permissionConfig.permissions[0], effect: 'allow' as const },
+      { scope: permissionConfig.permissions[1], effect: 'deny' as const },
+    ]
+
+    expect(hasPermissionEffect(permissions, 'fleet:read')).toBe(true)
+    expect(hasPermissionEffect(permissions, 'fleet:write')).toBe(false)
+    expect(hasPermissionEffect(permissions, 'fleet:write', 'deny')).toBe(true)
+    expect(hasPermissionEffect(permissions, 'warehouse:read')).toBe(false)
+  })
+})
+
+const permission = (id: string, effect: PermissionEffect): Permission => ({
+  scope: { id, name: id, resource: id.split(':')[0], action: id.split(':')[1] ?? '*' },
+  effect,
+})
+
+describe('scopeMatches', () => {
+  it('should match exact ids and wildcards per segment', () => {
+    expect(scopeMatches('fleet:read', 'fleet:read')).toBe(true)
+    expect(scopeMatches('fleet:*', 'fleet:read')).toBe(true)
+    expect(scopeMatches('fleet:*', 'fleet:ships:read')).toBe(true)
+    expect(scopeMatches('*:read', 'warehouse:read')).toBe(true)
+    expect(scopeMatches('*:read', 'warehouse:write')).toBe(false)
+    expect(scopeMatches('*', 'anything:at:all')).toBe(true)
+    expect(scopeMatches('fleet:*', 'fleetwide:read')).toBe(false)
+    expect(scopeMatches('fleet:*', 'fleet')).toBe(false)
+  })
+})
+
+describe('evaluatePermissions', () => {
+  const permissions = [
+    permission('fleet:*', 'allow'),
+    permission('fleet:delete', 'deny'),
+    permission('*:read', 'allow'),
+  ]
+
+  it('should return null when nothing applies', () => {
+    expect(evaluatePermissions(permissions, 'tribe:write')).toBeNull()
+  })
+
+  it('should let any deny win with deny-overrides', () => {
+    expect(evaluatePermissions(permissions, 'fleet:delete', 'deny-overrides')).toBe('deny')
+    expect(evaluatePermissions(permissions, 'fleet:write', 'deny-overrides')).toBe('allow')
+  })
+
+  it('should let any allow win with allow-overrides', () => {
+    expect(evaluatePermissions(permissions, 'fleet:delete', 'allow-overrides')).toBe('allow')
+    expect(evaluatePermissions([permission('fleet:delete', 'deny')], 'fleet:delete', 'allow-overrides')).toBe('deny')
+  })
+
+  it('should use the first matching permission with first-applicable', () => {
+    expect(evaluatePermissions(permissions, 'fleet:delete', 'first-applicable')).toBe('allow')
+    expect(evaluatePermissions([...permissions].reverse(), 'fleet:delete', 'first-applicable')).toBe('deny')
+  })
+})
+
+describe('resource-instance permissions', () => {
+  const instance = (id: string, resourceId: string, effect: PermissionEffect = 'allow'): Permission => ({
+    ...permission(id, effect),
+    resourceId,
+  })
+  const context = (resourceId?: string | number) => ({ user: mockUserInfo, resourceId })
+
+  it('should only apply instance grants to checks naming that resource', () => {
+    const permissions = [instance('warehouse:write', '42')]
+
+    expect(evaluatePermissions(permissions, 'warehouse:write', 'deny-overrides', undefined, context('42'))).toBe('allow')
+    expect(evaluatePermissions(permissions, 'warehouse:write', 'deny-overrides', undefined, context(42))).toBe('allow')
+    expect(evaluatePermissions(permissions, 'warehouse:write', 'deny-overrides', undefined, context('43'))).toBeNull()
+    expect(evaluatePermissions(permissions, 'warehouse:write', 'deny-overrides', undefined, context())).toBeNull()
+  })
+
+  it('should combine instance denies with type-level allows', () => {
+    const permissions = [permission('warehouse:write', 'allow'), instance('warehouse:write', '43', 'deny')]
+
+    expect(evaluatePermissions(permissions, 'warehouse:write', 'deny-overrides', undefined, context('42'))).toBe('allow')
+    expect(evaluatePermissions(permissions, 'warehouse:write', 'deny-overrides', undefined, context('43'))).toBe('deny')
+  })
+
+  it('should read resource ids from the id property', () => {
+    expect(getResourceId({ id: 42 })).toBe(42)
+    expect(getResourceId({ id: '42' })).toBe('42')
+    expect(getResourceId({ name: 'depot' })).toBeUndefined()
+  })
+})
+
+describe('buildImplicationGraph', () => {
+  const scope = (id: string, implies?: string[]) => ({ ...permission(id, 'allow').scope, implies })
+
+  it('should follow implications transitively', () => {
+    const graph = buildImplicationGraph([
+      scope('fleet:read'),
+      scope('fleet:write', ['fleet:read']),
+      scope('fleet:admin', ['fleet:write']),
+    ])
+
+    expect(graph.get('fleet:admin')).toEqual(['fleet:write', 'fleet:read'])
+    expect(graph.get('fleet:read')).toEqual([])
+  })
+
+  it('should reject cycles', () => {
+    expect(() =>
+      buildImplicationGraph([
+        scope('fleet:read', ['fleet:admin']),
+        scope('fleet:write', ['fleet:read']),
+        scope('fleet:admin', ['fleet:write']),
+      ])
+    ).toThrow(
+      expect.objectContaining({
+        code: 'CONFIG_ERROR',
+        message: 'Permission scope implications form a cycle: fleet:read -> fleet:admin -> fleet:write -> fleet:read',
+      })
+    )
+  })
+
+  it('should reject implications of unknown scopes', () => {
+    expect(() => buildImplicationGraph([scope('fleet:admin', ['fleet:write'])])).toThrow(
+      "Permission scope 'fleet:admin' implies unknown scopes: fleet:write"
+    )
+  })
+
+  it('should let implied allows satisfy checks but keep denies on their own scope', () => {
+    const graph = buildImplicationGraph([
+      scope('fleet:read'),
+      scope('fleet:write', ['fleet:read']),
+      scope('fleet:admin', ['fleet:write']),
+    ])
+    const permissions = [permission('fleet:admin', 'allow'), permission('fleet:write', 'deny')]
+
+    expect(evaluatePermissions(permissions, 'fleet:read', 'deny-overrides', graph)).toBe('allow')
+    expect(evaluatePermissions(permissions, 'fleet:write', 'deny-overrides', graph)).toBe('deny')
+    expect(evaluatePermissions([permission('fleet:admin', 'deny')], 'fleet:read', 'deny-overrides', graph)).toBeNull()
+    expect(evaluatePermissions(permissions, 'fleet:read')).toBeNull()
+  })
+})
+
+describe('PermissionResolver subclasses', () => {
+  class CustomResolver extends PermissionResolver {
+    constructor(application: string | VulturPermissionConfig, private granted: string[]) {
+      super(application)
+    }
+
+    resolveUserPermissions(): Permission[] {
+      return config.permissions
+        .filter(scope => this.granted.includes(scope.id))
+        .map(scope => ({ scope, effect: 'allow' as const }))
+    }
+  }
+
+  const config = VulturPermissionConfigBuilder
+    .create('warehouse-app', '1.0.0')
+    .addPermissionScopes(PermissionPatterns.crud('warehouse'))
+    .addPermissionScopes(PermissionPatterns.tribal('tribe'))
+    .build()
+
+  const check = (resolver: CustomResolver, scopeId: string) =>
+    hasPermissionEffect(
+      resolver.resolveUserPermissions(),
+      scopeId,
+      'allow',
+      resolver.combiningAlgorithm,
+      resolver.implications
+    )
+
+  afterEach(() => {
+    resetVulturSSOConfig()
+  })
+
+  it('should follow implications through scopes they do not return', () => {
+    const admin = new CustomResolver(config, ['warehouse:admin'])
+    const ceo = new CustomResolver(config, ['tribe:ceo'])
+
+    expect(['warehouse:write', 'warehouse:delete', 'warehouse:read'].map(scope => check(admin, scope))).toEqual([true, true, true])
+    expect(['tribe:director', 'tribe:officer', 'tribe:member'].map(scope => check(ceo, scope))).toEqual([true, true, true])
+    expect(check(new CustomResolver(config, ['warehouse:read']), 'warehouse:write')).toBe(false)
+  })
+
+  it('should fall back to the initialized configuration of their application', () => {
+    const admin = new CustomResolver('warehouse-app', ['warehouse:admin'])
+    const ceo = new CustomResolver('warehouse-app', ['tribe:ceo'])
+    expect(check(admin, 'warehouse:read')).toBe(false)
+
+    initializeVulturSSO({ identApiUrl: 'https://api.example.com', applicationName: 'warehouse-app', permissionConfig: config })
+
+    expect(check(admin, 'warehouse:read')).toBe(true)
+    expect(check(ceo, 'tribe:member')).toBe(true)
+    expect(check(new CustomResolver('other-app', ['warehouse:admin']), 'warehouse:read')).toBe(false)
+  })
+})
+
+describe('RoleMappingPermissionResolver', () => {
+  const resolver = new RoleMappingPermissionResolver(permissionConfig, {
+    roles: {
+      'Fleet Member': ['fleet:*'],
+      'Warehouse Worker': ['warehouse:read', 'warehouse:pick'],
+    },
+  })
+
+  it('should grant the scopes mapped to active roles', () => {
+    const permissions = resolver.resolveUserPermissions(mockUserInfo, mockUserRoles)
+
+    expect(scopeIds(permissions)).toEqual(['fleet:read', 'fleet:write', 'warehouse:read', 'warehouse:pick'])
+    expect(permissions.every(p => p.effect === 'allow')).toBe(true)
+    expect(permissions[0].scope).toBe(permissionConfig.permissions[0])
+  })
+
+  it('should ignore inactive and unmapped roles', () => {
+    const roles: UserRole[] = [
+      { ...mockUserRoles[0], is_active: false },
+      { ...mockUserRoles[1], name: 'Pilot' },
+    ]
+
+    expect(resolver.resolveUserPermissions(mockUserInfo, roles)).toEqual([])
+  })
+
+  it('should grant every scope to admins by default', () => {
+    expect(scopeIds(resolver.resolveUserPermissions(mockAdminUser, []))).toEqual(
+      scopeIds(permissionConfig.permissions.map(scope => ({ scope })))
+    )
+  })
+
+  it('should make the admin grant configurable', () => {
+    const limited = new RoleMappingPermissionResolver(permissionConfig, { roles: {}, adminGrant: ['admin:*'] })
+    const none = new RoleMappingPermissionResolver(permissionConfig, { roles: {}, adminGrant: false })
+
+    expect(scopeIds(limited.resolveUserPermissions(mockAdminUser, []))).toEqual(['admin:users'])
+    expect(none.resolveUserPermissions(mockAdminUser, [])).toEqual([])
+  })
+
+  it('should expand action wildcards and carry the combining algorithm', () => {
+    const readers = new RoleMappingPermissionResolver(permissionConfig, {
+      roles: { 'Fleet Member': ['*:read'] },
+      combiningAlgorithm: 'first-applicable',
+    })
+
+    expect(scopeIds(readers.resolveUserPermissions(mockUserInfo, mockUserRoles))).toEqual([
+      'fleet:read',
+      'warehouse:read',
+    ])
+    expect(readers.combiningAlgorithm).toBe('first-applicable')
+    expect(resolver.combiningAlgorithm).toBe('deny-overrides')
+  })
+
+  it('should reject scopes missing from the permission config', () => {
+    expect(
+      () =>
+        new RoleMappingPermissionResolver(permissionConfig, {
+          roles: { 'Fleet Member': ['fleet:read', 'fleet:delete', 'tribe:*'] },
+        })
+    ).toThrow(
+      expect.objectContaining({
+        code: 'CONFIG_ERROR',
+        message: 'Role mapping references unknown permission scopes for test-app: fleet:delete, tribe:*',
+      })
+    )
+  })
+
+  it('should follow the implications declared in the permission config', () => {
+    const hierarchy = new RoleMappingPermissionResolver(
+      {
+        ...permissionConfig,
+        permissions: [
+          { id: 'tribe:member', name: 'Member', resource: 'tribe', action: 'member' },
+          { id: 'tribe:officer', name: 'Officer', resource: 'tribe', action: 'officer', implies: ['tribe:member'] },
+        ],
+      },
+      { roles: { 'Fleet Member': ['tribe:officer'] } }
+    )
+    const permissions = hierarchy.resolveUserPermissions(mockUserInfo, mockUserRoles)
+
+    expect(scopeIds(permissions)).toEqual(['tribe:officer'])
+    expect(hasPermissionEffect(permissions, 'tribe:member', 'allow', hierarchy.combiningAlgorithm, hierarchy.implications)).toBe(true)
+  })
+
+  it('should grant conditional scopes that only apply when their conditions hold', () => {
+    const conditional = new RoleMappingPermissionResolver(permissionConfig, {
+      roles: {
+        'Fleet Member': [{ scope: 'fleet:*', conditions: ['resource.tribe_id == user.tribe_id'] }],
+        'Warehouse Worker': ['fleet:read'],
+      },
+    })
+    const permissions = conditional.resolveUserPermissions(mockUserInfo, mockUserRoles)
+    const check = (scopeId: string, resource?: Record<string, unknown>) =>
+      hasPermissionEffect(permissions, scopeId, 'allow', 'deny-overrides', undefined, { user: mockUserInfo, resource })
+
+    expect(permissions).toEqual([
+      { scope: permissionConfig.permissions[0], effect: 'allow' },
+      { scope: permissionConfig.permissions[1], effect: 'allow', conditions: ['resource.tribe_id == user.tribe_id'] },
+    ])
+    expect(check('fleet:read')).toBe(true)
+    expect(check('fleet:write')).toBe(false)
+    expect(check('fleet:write', { tribe_id: mockUserInfo.tribe_id })).toBe(true)
+  })
+
+  it('should reject malformed conditions', () => {
+    expect(
+      () =>
+        new RoleMappingPermissionResolver(permissionConfig, {
+          roles: { 'Fleet Member': [{ scope: 'fleet:write', conditions: ['resource.tribe_id === user.tribe_id'] }] },
+        })
+    ).toThrow(expect.objectContaining({ code: 'CONFIG_ERROR' }))
+  })
+
+  it('should grant scopes on listed resource instances', () => {
+    const depots = new RoleMappingPermissionResolver(permissionConfig, {
+      roles: { 'Warehouse Worker': [{ scope: 'warehouse:pick', resourceIds: [42, '44'] }, 'warehouse:read'] },
+    })
+    const permissions = depots.resolveUserPermissions(mockUserInfo, mockUserRoles)
+
+    expect(permissions).toEqual([
+      { scope: permissionConfig.permissions[2], effect: 'allow' },
+      { scope: permissionConfig.permissions[3], effect: 'allow', resourceId: '42' },
+      { scope: permissionConfig.permissions[3], effect: 'allow', resourceId: '44' },
+    ])
+  })
+})
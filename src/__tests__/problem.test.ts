@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createProblem,
+  fromProblemDetails,
+  getProblemType,
+  isProblemDetails,
+  toProblemDetails,
+  toProblemResponse,
+} from '../problem'
+import { VulturSSOError } from '../errors'
+
+describe('toProblemDetails', () => {
+  it('should describe a VulturSSOError', () => {
+    const error = new VulturSSOError('FORBIDDEN', "Permission 'fleet:write' required", {
+      requiredPermission: 'fleet:write',
+    })
+
+    expect(toProblemDetails(error)).toEqual({
+      type: 'urn:vultur:problem:forbidden',
+      title: 'Forbidden',
+      status: 403,
+      detail: "Permission 'fleet:write' required",
+      vulturCode: 'FORBIDDEN',
+      requiredPermission: 'fleet:write',
+    })
+  })
+
+  it('should include retry and request metadata', () => {
+    const error = new VulturSSOError('RATE_LIMITED', 'Slow down', undefined, { retryAfter: 3, requestId: 'req-1' })
+
+    expect(toProblemDetails(error)).toMatchObject({ status: 429, retryAfter: 3, requestId: 'req-1' })
+  })
+
+  it('should hide the message of unexpected errors', () => {
+    expect(toProblemDetails(new Error('database password is hunter2'), { instance: '/api/fleet' })).toEqual({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      instance: '/api/fleet',
+    })
+  })
+})
+
+describe('toProblemResponse', () => {
+  it('should build an application/problem+json response', async () => {
+    const response = toProblemResponse(new VulturSSOError('TOKEN_EXPIRED', 'Token has expired'))
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get('Content-Type')).toBe('application/problem+json')
+    expect(await response.json()).toMatchObject({
+      type: getProblemType('TOKEN_EXPIRED'),
+      title: 'Token expired',
+      vulturCode: 'TOKEN_EXPIRED',
+    })
+  })
+
+  it('should set Retry-After and keep custom headers', () => {
+    const error = new VulturSSOError('CIRCUIT_OPEN', 'Failing fast', undefined, { retryAfter: 30 })
+    const response = toProblemResponse(error, { headers: { 'Cache-Control': 'no-store' } })
+
+    expect(response.status).toBe(503)
+    expect(response.headers.get('Retry-After')).toBe('30')
+    expect(response.headers.get('Cache-Control')).toBe('no-store')
+  })
+})
+
+describe('createProblem', () => {
+  it('should use about:blank with the status phrase as title', () => {
+    expect(createProblem(405, 'Only GET requests are supported')).toEqual({
+      type: 'about:blank',
+      title: 'Method Not Allowed',
+      status: 405,
+      detail: 'Only GET requests are supported',
+    })
+  })
+})
+
+describe('fromProblemDetails', () => {
+  it('should round-trip a VulturSSOError', () => {
+    const problem = toProblemDetails(new VulturSSOError('FORBIDDEN', 'No access', { requiredPermission: 'x' }))
+    const error = fromProblemDetails(problem)
+
+    expect(error).toBeInstanceOf(VulturSSOError)
+    expect(error).toMatchObject({ code: 'FORBIDDEN', message: 'No access', status: 403 })
+  })
+
+  it('should fall back to the status for foreign problems', () => {
+    expect(fromProblemDetails(createProblem(401)).code).toBe('UNAUTHORIZED')
+    expect(fromProblemDetails(createProblem(500)).code).toBe('UPSTREAM_ERROR')
+  })
+
+  it('should recognise problem details', () => {
+    expect(isProblemDetails(createProblem(404))).toBe(true)
+    expect(isProblemDetails({ error: 'Not found' })).toBe(false)
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { CircuitBreaker, computeBackoffDelay, createRequestSignal, sleep } from '../resilience'
+
+describe('computeBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should double the delay on every attempt', () => {
+    expect(computeBackoffDelay(0, { jitter: false })).toBe(100)
+    expect(computeBackoffDelay(1, { jitter: false })).toBe(200)
+    expect(computeBackoffDelay(3, { jitter: false, baseDelay: 50 })).toBe(400)
+  })
+
+  it('should cap the delay at maxDelay', () => {
+    expect(computeBackoffDelay(10, { jitter: false, maxDelay: 1000 })).toBe(1000)
+  })
+
+  it('should apply full jitter by default', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.25)
+    expect(computeBackoffDelay(1)).toBe(50)
+  })
+})
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should open after the failure threshold', () => {
+    const onStateChange = vi.fn()
+    const breaker = new CircuitBreaker({ failureThreshold: 2, onStateChange })
+
+    breaker.recordFailure()
+    expect(breaker.getState()).toBe('closed')
+
+    breaker.recordFailure()
+    expect(breaker.getState()).toBe('open')
+    expect(breaker.allowRequest()).toBe(false)
+    expect(onStateChange).toHaveBeenCalledWith('open', 'closed')
+  })
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 })
+
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+
+    expect(breaker.getState()).toBe('closed')
+  })
+
+  it('should let a single trial request through after the reset timeout', () => {
+    vi.useFakeTimers()
+    const onStateChange = vi.fn()
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, onStateChange })
+
+    breaker.recordFailure()
+    vi.advanceTimersByTime(1000)
+
+    expect(breaker.allowRequest()).toBe(true)
+    expect(breaker.getState()).toBe('half-open')
+    expect(breaker.allowRequest()).toBe(false)
+
+    breaker.recordSuccess()
+    expect(breaker.getState()).toBe('closed')
+    expect(onStateChange.mock.calls).toEqual([
+      ['open', 'closed'],
+      ['half-open', 'open'],
+      ['closed', 'half-open'],
+    ])
+  })
+
+  it('should reopen when the trial request fails', () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 1000 })
+
+    breaker.recordFailure()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    vi.advanceTimersByTime(1000)
+    breaker.allowRequest()
+    breaker.recordFailure()
+
+    expect(breaker.getState()).toBe('open')
+    expect(breaker.allowRequest()).toBe(false)
+  })
+
+  it('should close when reset', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 })
+    breaker.recordFailure()
+    breaker.reset()
+
+    expect(breaker.getState()).toBe('closed')
+    expect(breaker.allowRequest()).toBe(true)
+  })
+})
+
+describe('createRequestSignal', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should pass the caller signal through when no timeout is set', () => {
+    const controller = new AbortController()
+    const requestSignal = createRequestSignal(controller.signal)
+
+    expect(requestSignal.signal).toBe(controller.signal)
+    expect(requestSignal.timedOut()).toBe(false)
+  })
+
+  it('should abort after the timeout', () => {
+    vi.useFakeTimers()
+    const requestSignal = createRequestSignal(undefined, 100)
+
+    vi.advanceTimersByTime(100)
+
+    expect(requestSignal.signal?.aborted).toBe(true)
+    expect(requestSignal.timedOut()).toBe(true)
+  })
+
+  it('should abort when the caller aborts', () => {
+    const controller = new AbortController()
+    const requestSignal = createRequestSignal(controller.signal, 1000)
+
+    controller.abort()
+
+    expect(requestSignal.signal?.aborted).toBe(true)
+    expect(requestSignal.timedOut()).toBe(false)
+    requestSignal.cleanup()
+  })
+
+  it('should not abort after cleanup', () => {
+    vi.useFakeTimers()
+    const requestSignal = createRequestSignal(undefined, 100)
+
+    requestSignal.cleanup()
+    vi.advanceTimersByTime(200)
+
+    expect(requestSignal.signal?.aborted).toBe(false)
+  })
+})
+
+describe('sleep', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should resolve after the delay', async () => {
+    vi.useFakeTimers()
+    const resolved = vi.fn()
+
+    sleep(100).then(resolved)
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(resolved).toHaveBeenCalled()
+  })
+
+  it('should reject with the abort reason when the signal aborts', async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+
+    const pending = sleep(1000, controller.signal)
+    controller.abort(new Error('cancelled'))
+
+    await expect(pending).rejects.toThrow('cancelled')
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('should reject immediately for an already aborted signal', async () => {
+    await expect(sleep(1000, AbortSignal.abort())).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }))
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest'
 import {
   VulturIdentServerClient,
   ServerPermissionChecker,
@@ -9,7 +9,11 @@ import {
   createServerClient,
   VulturSSOError,
 } from '../server'
+import { RedisCacheStore } from '../cache'
+import { PermissionResolver } from '../permissions'
+import type { Permission, UserInfo, UserRole } from '../types'
 import { mockUserInfo, mockAdminUser, mockUserRoles } from './mocks/server'
+import { FakeRedis } from './mocks/redis'
 
 const TEST_API_URL = 'https://api.example.com'
 
@@ -89,7 +93,37 @@ describe('VulturIdentServerClient', () => {
       )
     })
 
-    it('should throw NETWORK_ERROR for other errors', async () => {
+    it('should throw INVALID_RESPONSE for malformed user info', async () => {
+      const spy = vi.spyOn(global, 'fetch').mockResolvedValueOnce(
+        Response.json({ ...mockUserInfo, roles: undefined })
+      )
+
+      await expect(client.validateToken('any-token')).rejects.toThrow(
+        expect.objectContaining({
+          code: 'INVALID_RESPONSE',
+          message: 'Token validation failed: invalid response, roles must be an array of strings',
+        })
+      )
+
+      spy.mockRestore()
+    })
+
+    it('should tolerate drift in non-essential fields in lenient mode', async () => {
+      const lenientClient = new VulturIdentServerClient({
+        identApiUrl: TEST_API_URL,
+        responseValidation: 'lenient',
+      })
+      const spy = vi.spyOn(global, 'fetch').mockResolvedValueOnce(
+        Response.json({ ...mockUserInfo, character_name: null })
+      )
+
+      const user = await lenientClient.validateToken('any-token')
+      expect(user.eth_address).toBe(mockUserInfo.eth_address)
+
+      spy.mockRestore()
+    })
+
+    it('should throw UPSTREAM_ERROR for server errors', async () => {
       // Mock a 500 error
       const spy = vi.spyOn(global, 'fetch').mockResolvedValueOnce(
         new Response(null, { status: 500 })
@@ -97,7 +131,9 @@ describe('VulturIdentServerClient', () => {
 
       await expect(client.validateToken('any-token')).rejects.toThrow(
         expect.objectContaining({
-          code: 'NETWORK_ERROR',
+          code: 'UPSTREAM_ERROR',
+          status: 500,
+          retryable: true,
           message: expect.stringContaining('Token validation failed: 500'),
         })
       )
@@ -220,6 +256,457 @@ describe('VulturIdentServerClient', () => {
   })
 })
 
+describe('VulturIdentServerClient caching', () => {
+  let client: VulturIdentServerClient
+  let fetchSpy: MockInstance<Parameters<typeof fetch>, ReturnType<typeof fetch>>
+
+  beforeEach(() => {
+    client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheTTL: 1000 })
+    fetchSpy = vi.spyOn(global, 'fetch')
+  })
+
+  afterEach(() => {
+    fetchSpy.mockRestore()
+  })
+
+  it('should cache validated tokens', async () => {
+    await client.validateToken('valid-token')
+    const user = await client.validateToken('valid-token')
+
+    expect(user).toEqual(mockUserInfo)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(client.getCacheStats()).toMatchObject({ hits: 1, misses: 1 })
+  })
+
+  it('should not cache a user from /me past the token expiry', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      const longLived = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheTTL: 5 * 60 * 1000 })
+      const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+      const exp = Math.floor(Date.now() / 1000) + 30
+      const token = `${encode({ alg: 'RS256' })}.${encode({ sub: mockUserInfo.eth_address, exp })}.c2lnbmF0dXJl`
+      fetchSpy.mockImplementation(async () => Response.json(mockUserInfo))
+
+      await longLived.validateToken(token)
+      vi.advanceTimersByTime(10 * 1000)
+      await longLived.validateToken(token)
+      expect(fetchSpy).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(25 * 1000)
+      await longLived.validateToken(token)
+      expect(fetchSpy).toHaveBeenCalledTimes(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should not cache failed validations', async () => {
+    await expect(client.validateToken('invalid-token')).rejects.toThrow(VulturSSOError)
+    await expect(client.validateToken('invalid-token')).rejects.toThrow(VulturSSOError)
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should cache roles and permission checks', async () => {
+    await client.getUserRoles(mockUserInfo.eth_address, 'valid-token')
+    await client.getUserRoles(mockUserInfo.eth_address, 'valid-token')
+    await client.checkUserPermission(mockUserInfo.eth_address, 'test-app', 'read', 'valid-token')
+    await client.checkUserPermission(mockUserInfo.eth_address, 'test-app', 'read', 'valid-token')
+    await client.checkUserPermission(mockUserInfo.eth_address, 'test-app', 'admin', 'valid-token')
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+  })
+
+  it('should invalidate all cached lookups for a user', async () => {
+    await client.validateToken('valid-token')
+    await client.validateToken('admin-token')
+    await client.getUserRoles(mockUserInfo.eth_address, 'valid-token')
+    await client.checkUserPermission(mockUserInfo.eth_address, 'test-app', 'read', 'valid-token')
+
+    await client.invalidateUser(mockUserInfo.eth_address.toUpperCase())
+    fetchSpy.mockClear()
+
+    await client.validateToken('valid-token')
+    await client.validateToken('admin-token')
+    await client.getUserRoles(mockUserInfo.eth_address, 'valid-token')
+    await client.checkUserPermission(mockUserInfo.eth_address, 'test-app', 'read', 'valid-token')
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+  })
+
+  it('should bypass the cache when cacheTTL is 0', async () => {
+    const uncached = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheTTL: 0 })
+
+    await uncached.validateToken('valid-token')
+    await uncached.validateToken('valid-token')
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(uncached.getCacheStats().size).toBe(0)
+  })
+
+  it('should clear the cache', async () => {
+    await client.validateToken('valid-token')
+    await client.clearCache()
+    await client.validateToken('valid-token')
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should share cached lookups through a cache store', async () => {
+    const store = new RedisCacheStore(new FakeRedis())
+    const first = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheStore: store, applicationName: 'test-app' })
+    const second = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheStore: store, applicationName: 'test-app' })
+
+    await first.validateToken('valid-token')
+    const user = await second.validateToken('valid-token')
+
+    expect(user).toEqual(mockUserInfo)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should namespace cached entries by application name', async () => {
+    const redis = new FakeRedis()
+    const store = new RedisCacheStore(redis)
+    const fleetClient = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheStore: store, applicationName: 'fleet-app' })
+    const warehouseClient = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheStore: store, applicationName: 'warehouse-app' })
+
+    await fleetClient.getUserRoles(mockUserInfo.eth_address, 'valid-token')
+    await warehouseClient.getUserRoles(mockUserInfo.eth_address, 'valid-token')
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(redis.keys()).toContain(`vultur:fleet-app:roles:${mockUserInfo.eth_address}`)
+    expect(redis.keys()).toContain(`vultur:warehouse-app:roles:${mockUserInfo.eth_address}`)
+  })
+
+  it('should index concurrent lookups for invalidation through a Redis set', async () => {
+    const redis = new FakeRedis()
+    const store = new RedisCacheStore(redis)
+    const first = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheStore: store, applicationName: 'test-app' })
+    const second = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheStore: store, applicationName: 'test-app' })
+
+    await Promise.all([
+      first.getUserRoles(mockUserInfo.eth_address, 'valid-token'),
+      second.checkUserPermission(mockUserInfo.eth_address, 'test-app', 'read', 'valid-token'),
+    ])
+    await first.invalidateUser(mockUserInfo.eth_address)
+
+    expect(redis.commands.map(([command]) => command)).toContain('SADD')
+    expect(redis.keys()).toEqual([])
+  })
+
+  it('should keep working when the cache store fails', async () => {
+    const failingStore = {
+      get: vi.fn().mockRejectedValue(new Error('connection refused')),
+      set: vi.fn().mockRejectedValue(new Error('connection refused')),
+      delete: vi.fn().mockRejectedValue(new Error('connection refused')),
+    }
+    const resilient = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheStore: failingStore })
+
+    expect(await resilient.validateToken('valid-token')).toEqual(mockUserInfo)
+    expect(resilient.getCacheStats()).toEqual({ hits: 0, misses: 1 })
+  })
+})
+
+describe('VulturIdentServerClient resilience', () => {
+  let fetchSpy: MockInstance<Parameters<typeof fetch>, ReturnType<typeof fetch>>
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(global, 'fetch')
+  })
+
+  afterEach(() => {
+    fetchSpy.mockRestore()
+  })
+
+  it('should retry 5xx responses with backoff', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      retry: { retries: 2, baseDelay: 1 },
+    })
+    fetchSpy
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+
+    const user = await client.validateToken('valid-token')
+
+    expect(user).toEqual(mockUserInfo)
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+  })
+
+  it('should retry network failures', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      retry: { retries: 1, baseDelay: 1 },
+    })
+    fetchSpy.mockRejectedValueOnce(new TypeError('fetch failed'))
+
+    const roles = await client.getUserRoles(mockUserInfo.eth_address, 'valid-token')
+
+    expect(roles).toEqual(mockUserRoles)
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should give up after the configured retries', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      retry: { retries: 1, baseDelay: 1 },
+    })
+    fetchSpy.mockRejectedValue(new TypeError('fetch failed'))
+
+    await expect(client.validateToken('valid-token')).rejects.toThrow(
+      expect.objectContaining({ code: 'NETWORK_ERROR', message: 'Request to vultur-ident-api failed' })
+    )
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not retry 4xx responses', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      retry: { retries: 2, baseDelay: 1 },
+    })
+
+    await expect(client.validateToken('invalid-token')).rejects.toThrow(
+      expect.objectContaining({ code: 'UNAUTHORIZED' })
+    )
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should retry 429 responses after Retry-After', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      retry: { retries: 1, baseDelay: 1 },
+    })
+    fetchSpy.mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '0' } }))
+
+    expect(await client.validateToken('valid-token')).toEqual(mockUserInfo)
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should surface RATE_LIMITED when Retry-After exceeds maxDelay', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      retry: { retries: 2, baseDelay: 1, maxDelay: 1000 },
+    })
+    fetchSpy.mockResolvedValueOnce(
+      new Response(null, { status: 429, headers: { 'Retry-After': '60', 'X-Request-Id': 'req-1' } })
+    )
+
+    await expect(client.validateToken('valid-token')).rejects.toThrow(
+      expect.objectContaining({ code: 'RATE_LIMITED', status: 429, retryAfter: 60, requestId: 'req-1', retryable: true })
+    )
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not count rate limiting against the circuit breaker', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      circuitBreaker: { failureThreshold: 1 },
+    })
+    fetchSpy.mockResolvedValueOnce(new Response(null, { status: 429 }))
+
+    await expect(client.validateToken('valid-token')).rejects.toThrow(
+      expect.objectContaining({ code: 'RATE_LIMITED' })
+    )
+    expect(client.getCircuitState()).toBe('closed')
+  })
+
+  it('should not retry by default', async () => {
+    const client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL })
+    fetchSpy.mockResolvedValueOnce(new Response(null, { status: 503 }))
+
+    await expect(client.validateToken('valid-token')).rejects.toThrow(
+      expect.objectContaining({ code: 'UPSTREAM_ERROR' })
+    )
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fail fast with CIRCUIT_OPEN once the circuit opens', async () => {
+    const onStateChange = vi.fn()
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      circuitBreaker: { failureThreshold: 2, onStateChange },
+    })
+    fetchSpy.mockResolvedValue(new Response(null, { status: 500 }))
+
+    await expect(client.getUserRoles(mockUserInfo.eth_address, 'valid-token')).rejects.toThrow(VulturSSOError)
+    await expect(client.getUserRoles(mockUserInfo.eth_address, 'valid-token')).rejects.toThrow(VulturSSOError)
+    await expect(client.getUserRoles(mockUserInfo.eth_address, 'valid-token')).rejects.toThrow(
+      expect.objectContaining({ code: 'CIRCUIT_OPEN' })
+    )
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(client.getCircuitState()).toBe('open')
+    expect(onStateChange).toHaveBeenCalledWith('open', 'closed')
+  })
+
+  it('should not count 4xx responses as failures', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      circuitBreaker: { failureThreshold: 1 },
+    })
+
+    await expect(client.validateToken('invalid-token')).rejects.toThrow(
+      expect.objectContaining({ code: 'UNAUTHORIZED' })
+    )
+    expect(client.getCircuitState()).toBe('closed')
+  })
+})
+
+describe('VulturIdentServerClient timeouts and cancellation', () => {
+  let fetchSpy: MockInstance<Parameters<typeof fetch>, ReturnType<typeof fetch>>
+
+  const hangingFetch = (_input: RequestInfo | URL, init?: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+    })
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(global, 'fetch')
+  })
+
+  afterEach(() => {
+    fetchSpy.mockRestore()
+  })
+
+  it('should time out hung requests using the client default', async () => {
+    const client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, timeout: 20 })
+    fetchSpy.mockImplementation(hangingFetch)
+
+    await expect(client.validateToken('valid-token')).rejects.toThrow(
+      expect.objectContaining({
+        code: 'TIMEOUT',
+        message: 'Request to vultur-ident-api timed out after 20ms',
+      })
+    )
+  })
+
+  it('should accept a per-call timeout', async () => {
+    const client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL })
+    fetchSpy.mockImplementation(hangingFetch)
+
+    await expect(
+      client.getUserInfo(mockUserInfo.eth_address, 'admin-token', { timeout: 10 })
+    ).rejects.toThrow(expect.objectContaining({ message: expect.stringContaining('timed out after 10ms') }))
+  })
+
+  it('should abort when the caller signal aborts', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      retry: { retries: 2, baseDelay: 1 },
+    })
+    fetchSpy.mockImplementation(hangingFetch)
+    const controller = new AbortController()
+
+    const pending = client.getUserRoles(mockUserInfo.eth_address, 'valid-token', { signal: controller.signal })
+    await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalled())
+    controller.abort()
+
+    await expect(pending).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }))
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop waiting out a retry backoff when the caller aborts', async () => {
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      retry: { retries: 2, baseDelay: 1000, maxDelay: 1000, jitter: false },
+    })
+    fetchSpy.mockImplementation(async () => new Response(null, { status: 503 }))
+    const controller = new AbortController()
+
+    const pending = client.getUserRoles(mockUserInfo.eth_address, 'valid-token', { signal: controller.signal })
+    await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalled())
+    controller.abort()
+
+    await expect(pending).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }))
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not send requests for an already aborted signal', async () => {
+    const client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL })
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      client.validateToken('valid-token', { signal: controller.signal })
+    ).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }))
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  it('should pass the signal through to fetch', async () => {
+    const client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL })
+    const controller = new AbortController()
+
+    const allowed = await client.checkUserPermission(
+      mockUserInfo.eth_address,
+      'test-app',
+      'read',
+      'valid-token',
+      { signal: controller.signal }
+    )
+
+    expect(allowed).toBe(true)
+    expect(fetchSpy.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal)
+  })
+})
+
+describe('VulturIdentServerClient transport', () => {
+  it('should use the injected fetch implementation', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(Response.json(mockUserInfo))
+    const client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, fetch: fetchImpl })
+
+    const user = await client.validateToken('valid-token')
+
+    expect(user).toEqual(mockUserInfo)
+    expect(fetchImpl).toHaveBeenCalledWith(`${TEST_API_URL}/me`, expect.any(Object))
+  })
+
+  it('should send identifying headers', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(Response.json(mockUserRoles))
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      applicationName: 'test-app',
+      fetch: fetchImpl,
+    })
+
+    await client.getUserRoles(mockUserInfo.eth_address, 'valid-token')
+
+    const headers: Headers = fetchImpl.mock.calls[0][1].headers
+    expect(headers.get('X-Vultur-Application')).toBe('test-app')
+    expect(headers.get('X-Vultur-Client')).toMatch(/^vultur-sso-client\//)
+    expect(headers.get('User-Agent')).toMatch(/^vultur-sso-client\//)
+  })
+
+  it('should run request and response interceptors', async () => {
+    const onRequest = vi.fn(request => {
+      request.init.headers.set('X-Request-Id', 'req-1')
+    })
+    const onResponse = vi.fn()
+    const client = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, onRequest, onResponse })
+
+    await client.checkUserPermission(mockUserInfo.eth_address, 'test-app', 'read', 'valid-token')
+
+    expect(onRequest.mock.calls[0][0].init.headers.get('X-Request-Id')).toBe('req-1')
+    expect(onResponse).toHaveBeenCalledWith(expect.any(Response), expect.objectContaining({
+      url: expect.stringContaining('/permissions/test-app/read'),
+    }))
+  })
+
+  it('should fetch the JWKS through the injected fetch', async () => {
+    const fetchImpl = vi.fn().mockImplementation(async (url: string) =>
+      url.endsWith('/.well-known/jwks.json') ? Response.json({ keys: [] }) : Response.json(mockUserInfo)
+    )
+    const client = new VulturIdentServerClient({
+      identApiUrl: TEST_API_URL,
+      fetch: fetchImpl,
+      jwtVerification: {},
+    })
+
+    await client.validateToken('eyJhbGciOiJSUzI1NiJ9.eyJzdWIiOiIweDEifQ.c2ln')
+
+    expect(fetchImpl).toHaveBeenCalledWith(`${TEST_API_URL}/.well-known/jwks.json`, expect.any(Object))
+  })
+})
+
 describe('createAuthMiddleware', () => {
   let client: VulturIdentServerClient
   let middleware: ReturnType<typeof createAuthMiddleware>
@@ -278,6 +765,28 @@ describe('createAuthMiddleware', () => {
   })
 })
 
+describe('token sources', () => {
+  const client = new VulturIdentServerClient({
+    identApiUrl: TEST_API_URL,
+    tokenSources: [{ type: 'header' }, { type: 'cookie', name: 'vultur_session' }],
+  })
+
+  it('should be shared by createAuthMiddleware, withAuth and withPermission', async () => {
+    const req = new Request('https://example.com', { headers: { Cookie: 'vultur_session=valid-token' } })
+    const handler = vi.fn().mockResolvedValue('ok')
+
+    expect(await createAuthMiddleware(client)(req)).toEqual(mockUserInfo)
+    expect(await withAuth(client, handler)(req)).toBe('ok')
+    expect(await withPermission(client, 'test-app', 'read', handler)(req)).toBe('ok')
+  })
+
+  it('should report a missing token when no source has one', async () => {
+    await expect(createAuthMiddleware(client)(new Request('https://example.com'))).rejects.toThrow(
+      expect.objectContaining({ code: 'UNAUTHORIZED', message: 'No token provided' })
+    )
+  })
+})
+
 describe('extractJWT', () => {
   it('should extract JWT from NextRequest (App Router)', () => {
     const req = {
@@ -381,6 +890,161 @@ describe('ServerPermissionChecker', () => {
     })
   })
 
+  describe('with a permission resolver', () => {
+    class RoleResolver extends PermissionResolver {
+      resolveUserPermissions(user: UserInfo, roles: UserRole[]): Permission[] {
+        return roles.map(role => ({
+          scope: { id: `role:${role.name}`, name: role.name, resource: 'role', action: 'member' },
+          effect: role.is_active ? 'allow' : 'deny',
+        }))
+      }
+    }
+
+    let localChecker: ServerPermissionChecker
+
+    beforeEach(() => {
+      localChecker = new ServerPermissionChecker(client, 'test-app', { resolver: new RoleResolver('test-app') })
+    })
+
+    it('should evaluate scopes locally without the permission endpoint', async () => {
+      const spy = vi.spyOn(client, 'checkUserPermission')
+
+      expect(await localChecker.hasPermission(mockUserInfo.eth_address, 'role:Fleet Member', 'valid-token')).toBe(true)
+      expect(await localChecker.hasPermission(mockUserInfo.eth_address, 'role:Administrator', 'valid-token')).toBe(false)
+      expect(spy).not.toHaveBeenCalled()
+    })
+
+    it('should fetch roles once for multi-scope checks', async () => {
+      const fetchSpy = vi.spyOn(global, 'fetch')
+      const scopes = ['role:Fleet Member', 'role:Warehouse Worker']
+
+      expect(await localChecker.hasAllPermissions(mockUserInfo.eth_address, scopes, 'valid-token')).toBe(true)
+      expect(await localChecker.hasAnyPermission(mockUserInfo.eth_address, ['role:Pilot', ...scopes], 'valid-token')).toBe(true)
+      // One /me and one /roles request; everything else is evaluated locally or cached
+      expect(fetchSpy).toHaveBeenCalledTimes(2)
+      fetchSpy.mockRestore()
+    })
+
+    it('should resolve no permissions for unknown users', async () => {
+      expect(await localChecker.resolvePermissions(mockAdminUser.eth_address, 'admin-token')).toHaveLength(
+        mockUserRoles.length
+      )
+      expect(await localChecker.hasPermission('0xunknown', 'role:Fleet Member', 'admin-token')).toBe(false)
+    })
+
+    it('should be used by withPermission', async () => {
+      const handler = vi.fn().mockResolvedValue('ok')
+      const protectedHandler = withPermission(client, 'test-app', 'role:Warehouse Worker', handler, {
+        resolver: new RoleResolver('test-app'),
+      })
+
+      expect(await protectedHandler({ headers: { authorization: 'Bearer valid-token' } })).toBe('ok')
+    })
+
+    it('should not validate the token twice in withPermission', async () => {
+      const uncachedClient = new VulturIdentServerClient({ identApiUrl: TEST_API_URL, cacheTTL: 0 })
+      const protectedHandler = withPermission(uncachedClient, 'test-app', 'role:Warehouse Worker', vi.fn(), {
+        resolver: new RoleResolver('test-app'),
+      })
+      const fetchSpy = vi.spyOn(global, 'fetch')
+
+      await protectedHandler({ headers: { authorization: 'Bearer valid-token' } })
+
+      expect(fetchSpy.mock.calls.map(([url]) => new URL(String(url)).pathname)).toEqual([
+        '/me',
+        `/users/${mockUserInfo.eth_address}/roles`,
+      ])
+      fetchSpy.mockRestore()
+    })
+
+    it('should throw CONFIG_ERROR when resolving without a resolver', async () => {
+      await expect(checker.resolvePermissions(mockUserInfo.eth_address, 'valid-token')).rejects.toThrow(
+        expect.objectContaining({ code: 'CONFIG_ERROR' })
+      )
+    })
+
+    it('should evaluate conditions against the user and the resource', async () => {
+      class TribeResolver extends PermissionResolver {
+        resolveUserPermissions(): Permission[] {
+          return [
+            {
+              scope: { id: 'fleet:write', name: 'Write Fleet', resource: 'fleet', action: 'write' },
+              effect: 'allow',
+              conditions: ['resource.tribe_id == user.tribe_id'],
+            },
+          ]
+        }
+      }
+      const tribeChecker = new ServerPermissionChecker(client, 'test-app', { resolver: new TribeResolver('test-app') })
+      const address = mockUserInfo.eth_address
+
+      expect(await tribeChecker.hasPermission(address, 'fleet:write', 'valid-token', { resource: { tribe_id: 12345 } })).toBe(true)
+      expect(await tribeChecker.hasPermission(address, 'fleet:write', 'valid-token', { resource: { tribe_id: 999 } })).toBe(false)
+      expect(await tribeChecker.hasPermission(address, 'fleet:write', 'valid-token')).toBe(false)
+      expect(
+        await tribeChecker.hasAnyPermission(address, ['fleet:read', 'fleet:write'], 'valid-token', { resource: { tribe_id: 12345 } })
+      ).toBe(true)
+    })
+
+    it('should check and filter resource instances', async () => {
+      class DepotResolver extends PermissionResolver {
+        resolveUserPermissions(): Permission[] {
+          return [
+            {
+              scope: { id: 'warehouse:write', name: 'Write Warehouse', resource: 'warehouse', action: 'write' },
+              effect: 'allow',
+              resourceId: '42',
+            },
+          ]
+        }
+      }
+      const depotChecker = new ServerPermissionChecker(client, 'test-app', { resolver: new DepotResolver('test-app') })
+      const address = mockUserInfo.eth_address
+      const warehouses = [{ id: 42, name: 'Depot' }, { id: 43, name: 'Outpost' }]
+
+      expect(await depotChecker.hasPermission(address, 'warehouse:write', 'valid-token', { resourceId: 42 })).toBe(true)
+      expect(await depotChecker.hasPermission(address, 'warehouse:write', 'valid-token', { resourceId: '43' })).toBe(false)
+      expect(await depotChecker.filterPermitted(address, 'warehouse:write', warehouses, 'valid-token')).toEqual([
+        warehouses[0],
+      ])
+      expect(
+        await depotChecker.filterPermitted(address, 'warehouse:write', warehouses, 'valid-token', w => w.name)
+      ).toEqual([])
+      await expect(checker.filterPermitted(address, 'read', warehouses, 'valid-token')).rejects.toThrow(
+        expect.objectContaining({ code: 'CONFIG_ERROR' })
+      )
+    })
+
+    it('should throw CONFIG_ERROR for resource checks without a resolver', async () => {
+      await expect(
+        checker.hasPermission(mockUserInfo.eth_address, 'read', 'valid-token', { resource: { tribe_id: 12345 } })
+      ).rejects.toThrow(expect.objectContaining({ code: 'CONFIG_ERROR' }))
+    })
+  })
+
+  describe('decision cache', () => {
+    it('should drop cached decisions when the user is invalidated', async () => {
+      const redis = new FakeRedis()
+      const cachedClient = new VulturIdentServerClient({
+        identApiUrl: TEST_API_URL,
+        applicationName: 'test-app',
+        cacheStore: new RedisCacheStore(redis),
+      })
+      const cachedChecker = new ServerPermissionChecker(cachedClient, 'test-app')
+      const fetchSpy = vi.spyOn(global, 'fetch')
+
+      expect(await cachedChecker.hasPermission(mockUserInfo.eth_address, 'read', 'valid-token')).toBe(true)
+      expect(await cachedChecker.hasPermission(mockUserInfo.eth_address, 'read', 'valid-token')).toBe(true)
+      expect(fetchSpy).toHaveBeenCalledTimes(1)
+
+      await cachedClient.invalidateUser(mockUserInfo.eth_address)
+      expect(await cachedChecker.hasPermission(mockUserInfo.eth_address, 'read', 'valid-token')).toBe(true)
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2)
+      fetchSpy.mockRestore()
+    })
+  })
+
   describe('hasAnyPermission', () => {
     it('should return true if user has any permission', async () => {
       const hasAny = await checker.hasAnyPermission(
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import {
+  PERMISSION_SIGNATURE_HEADER,
+  canonicalJson,
+  createPermissionConfigSigner,
+  signPermissionConfig,
+  verifySignedPermissionConfig,
+} from '../signing'
+import { createStaticVulturPermissionsApiHandler, createStaticVulturPermissionsHandler } from '../endpoint'
+import { base64UrlDecode, base64UrlEncode } from '../jwt'
+import { VulturSSOError } from '../errors'
+import type { VulturPermissionConfig } from '../types'
+import { TestKey, createEcKey } from './mocks/keys'
+
+const permissionConfig: VulturPermissionConfig = {
+  applicationName: 'fleet-manager',
+  version: '1.0.0',
+  permissions: [
+    { id: 'fleet:read', name: 'Read Fleet', resource: 'fleet', action: 'read' },
+    { id: 'fleet:write', name: 'Write Fleet', resource: 'fleet', action: 'write', implies: ['fleet:read'] },
+  ],
+  lastUpdated: '2024-01-01T00:00:00.000Z',
+}
+
+function decodeHeader(signature: string) {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(signature.split('.')[0])))
+}
+
+describe('canonicalJson', () => {
+  it('should sort object keys at every level', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ y: 1, x: 2 }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[{"x":2,"y":1}]},"b":1}'
+    )
+  })
+})
+
+describe('Permission config signing', () => {
+  let key: TestKey
+  let otherKey: TestKey
+
+  beforeAll(async () => {
+    key = await createEcKey('fleet-2024')
+    otherKey = await createEcKey('other')
+  })
+
+  it('should produce a detached JWS with kid and jku', async () => {
+    const signature = await signPermissionConfig(permissionConfig, {
+      privateKey: key.privateKey,
+      keyId: 'fleet-2024',
+      jwksUrl: 'https://fleet.example.com/.well-known/jwks.json',
+    })
+
+    expect(signature).toMatch(/^[\w-]+\.\.[\w-]+$/)
+    expect(decodeHeader(signature)).toEqual({
+      alg: 'ES256',
+      kid: 'fleet-2024',
+      jku: 'https://fleet.example.com/.well-known/jwks.json',
+    })
+  })
+
+  it('should take the algorithm and key id from a private JWK', async () => {
+    const signature = await signPermissionConfig(permissionConfig, { privateKey: key.privateJwk })
+
+    expect(decodeHeader(signature)).toEqual({ alg: 'ES256', kid: 'fleet-2024' })
+    await expect(
+      verifySignedPermissionConfig(permissionConfig, signature, { jwks: { keys: [key.jwk] } })
+    ).resolves.toEqual(permissionConfig)
+  })
+
+  it('should reject unsupported algorithms when the signer is created', () => {
+    expect(() => createPermissionConfigSigner({ privateKey: key.privateKey, algorithm: 'HS256' })).toThrow(
+      "Unsupported permission config signing algorithm 'HS256'"
+    )
+  })
+
+  describe('verifySignedPermissionConfig', () => {
+    const jwks = () => ({ keys: [otherKey.jwk, key.jwk] })
+
+    it('should accept the configuration after a JSON round-trip with reordered keys', async () => {
+      const signature = await signPermissionConfig(permissionConfig, { privateKey: key.privateKey, keyId: 'fleet-2024' })
+      const received = JSON.parse(JSON.stringify(Object.fromEntries(Object.entries(permissionConfig).reverse())))
+
+      await expect(verifySignedPermissionConfig(received, signature, { jwks: jwks() })).resolves.toEqual(received)
+    })
+
+    it('should reject a tampered configuration', async () => {
+      const signature = await signPermissionConfig(permissionConfig, { privateKey: key.privateKey, keyId: 'fleet-2024' })
+      const tampered = {
+        ...permissionConfig,
+        permissions: [...permissionConfig.permissions, { id: 'fleet:admin', name: 'Admin', resource: 'fleet', action: 'admin' }],
+      }
+
+      await expect(verifySignedPermissionConfig(tampered, signature, { jwks: jwks() })).rejects.toThrow(
+        'Permission configuration signature does not match'
+      )
+    })
+
+    it('should reject signatures made with another key', async () => {
+      const signature = await signPermissionConfig(permissionConfig, { privateKey: otherKey.privateKey, keyId: 'fleet-2024' })
+
+      await expect(verifySignedPermissionConfig(permissionConfig, signature, { jwks: jwks() })).rejects.toThrow(
+        'Permission configuration signature does not match'
+      )
+    })
+
+    it('should reject unknown key ids and missing or malformed signatures', async () => {
+      const signature = await signPermissionConfig(permissionConfig, { privateKey: key.privateKey, keyId: 'retired' })
+
+      await expect(verifySignedPermissionConfig(permissionConfig, signature, { jwks: jwks() })).rejects.toThrow(
+        "No trusted key 'retired' for the permission configuration signature"
+      )
+      await expect(verifySignedPermissionConfig(permissionConfig, null, { jwks: jwks() })).rejects.toThrow(
+        'Permission configuration is not signed'
+      )
+      await expect(verifySignedPermissionConfig(permissionConfig, 'a.b.c', { jwks: jwks() })).rejects.toThrow(
+        'Permission configuration signature is not a detached JWS'
+      )
+    })
+
+    it('should reject headers that are not JSON objects', async () => {
+      for (const header of ['null', '"ES256"', '[]']) {
+        await expect(
+          verifySignedPermissionConfig(permissionConfig, `${base64UrlEncode(header)}..c2lnbmF0dXJl`, { jwks: jwks() })
+        ).rejects.toThrow(
+          expect.objectContaining({ code: 'INVALID_RESPONSE', message: 'Permission configuration signature is not a detached JWS' })
+        )
+      }
+    })
+
+    it('should only accept the configured algorithms', async () => {
+      const signature = await signPermissionConfig(permissionConfig, { privateKey: key.privateKey, keyId: 'fleet-2024' })
+
+      const error = await verifySignedPermissionConfig(permissionConfig, signature, {
+        jwks: jwks(),
+        algorithms: ['RS256'],
+      }).catch(error => error)
+
+      expect(error).toBeInstanceOf(VulturSSOError)
+      expect(error.code).toBe('INVALID_RESPONSE')
+      expect(error.message).toBe("Permission configuration signing algorithm 'ES256' is not accepted")
+    })
+
+    it('should fetch trusted keys from jwksUrl', async () => {
+      const signature = await signPermissionConfig(permissionConfig, { privateKey: key.privateKey, keyId: 'fleet-2024' })
+      const fetch = vi.fn(async () => new Response(JSON.stringify(jwks()), { status: 200 }))
+
+      await verifySignedPermissionConfig(permissionConfig, signature, {
+        jwksUrl: 'https://fleet.example.com/.well-known/jwks.json',
+        fetch,
+      })
+
+      expect(fetch).toHaveBeenCalledWith('https://fleet.example.com/.well-known/jwks.json', expect.anything())
+    })
+
+    it('should require trusted keys', async () => {
+      const signature = await signPermissionConfig(permissionConfig, { privateKey: key.privateKey })
+
+      await expect(verifySignedPermissionConfig(permissionConfig, signature, {})).rejects.toThrow(
+        'verifySignedPermissionConfig needs jwks or jwksUrl'
+      )
+      await expect(
+        verifySignedPermissionConfig(permissionConfig, signature, { jwks: {} as any })
+      ).rejects.toThrow(expect.objectContaining({ code: 'CONFIG_ERROR' }))
+    })
+  })
+
+  describe('well-known handlers', () => {
+    it('should send a verifiable signature from the App Router handler', async () => {
+      const handler = createStaticVulturPermissionsHandler(permissionConfig, {
+        signing: { privateKey: key.privateJwk },
+      })
+
+      const response = await handler(new Request('https://fleet.example.com/.well-known/vultur-permissions') as any)
+      const signature = response.headers.get(PERMISSION_SIGNATURE_HEADER)
+
+      expect(response.headers.get('Access-Control-Expose-Headers')).toBe(PERMISSION_SIGNATURE_HEADER)
+      await expect(
+        verifySignedPermissionConfig(await response.json(), signature, { jwks: { keys: [key.jwk] } })
+      ).resolves.toEqual(permissionConfig)
+    })
+
+    it('should send a verifiable signature from the Pages Router handler', async () => {
+      const handler = createStaticVulturPermissionsApiHandler(permissionConfig, {
+        signing: { privateKey: key.privateKey, keyId: 'fleet-2024' },
+      })
+      const res = {
+        status: vi.fn().mockReturnThis(),
+        json: vi.fn().mockReturnThis(),
+        send: vi.fn().mockReturnThis(),
+        setHeader: vi.fn().mockReturnThis(),
+      }
+
+      await handler({ method: 'GET', headers: {} } as any, res as any)
+
+      const signature = res.setHeader.mock.calls.find(([name]) => name === PERMISSION_SIGNATURE_HEADER)?.[1]
+      expect(res.status).toHaveBeenCalledWith(200)
+      await expect(
+        verifySignedPermissionConfig(res.json.mock.calls[0][0], signature, { jwks: { keys: [key.jwk] } })
+      ).resolves.toEqual(permissionConfig)
+    })
+
+    it('should not send a signature without signing options', async () => {
+      const handler = createStaticVulturPermissionsHandler(permissionConfig)
+
+      const response = await handler(new Request('https://fleet.example.com/.well-known/vultur-permissions') as any)
+
+      expect(response.headers.get(PERMISSION_SIGNATURE_HEADER)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { NextRequest } from 'next/server'
+import { describeMissingToken, extractToken, TokenSource } from '../token'
+
+describe('extractToken', () => {
+  it('should read a Bearer Authorization header by default', () => {
+    const req = new Request('https://example.com', { headers: { Authorization: 'bearer abc' } })
+
+    expect(extractToken(req)).toBe('abc')
+  })
+
+  it('should read headers with a custom name and scheme', () => {
+    const sources: TokenSource[] = [
+      { type: 'header', name: 'Authorization', scheme: 'Token' },
+      { type: 'header', name: 'X-Vultur-Token', scheme: null },
+    ]
+
+    expect(extractToken({ headers: { authorization: 'Token abc' } }, sources)).toBe('abc')
+    expect(extractToken({ headers: { 'x-vultur-token': 'raw-token' } }, sources)).toBe('raw-token')
+    expect(extractToken({ headers: { authorization: 'Bearer abc' } }, sources)).toBeNull()
+  })
+
+  it('should read cookies from NextRequest, Pages requests and cookies()', () => {
+    const sources: TokenSource[] = [{ type: 'cookie', name: 'vultur_session' }]
+    const appRequest = new NextRequest('https://example.com', { headers: { Cookie: 'theme=dark; vultur_session=abc' } })
+    const cookieStore = { get: (name: string) => (name === 'vultur_session' ? { name, value: 'from-store' } : undefined) }
+
+    expect(extractToken(appRequest, sources)).toBe('abc')
+    expect(extractToken({ headers: {}, cookies: { vultur_session: 'pages' } }, sources)).toBe('pages')
+    expect(extractToken({ cookies: cookieStore }, sources)).toBe('from-store')
+  })
+
+  it('should fall back to parsing the Cookie header', () => {
+    const req = new Request('https://example.com', { headers: { Cookie: 'vultur_session=a%2Eb; other=1' } })
+
+    expect(extractToken(req, [{ type: 'cookie', name: 'vultur_session' }])).toBe('a.b')
+  })
+
+  it('should read query parameters', () => {
+    const sources: TokenSource[] = [{ type: 'query', name: 'access_token' }]
+
+    expect(extractToken(new NextRequest('https://example.com/ws?access_token=abc'), sources)).toBe('abc')
+    expect(extractToken({ query: { access_token: ['pages', 'other'] } }, sources)).toBe('pages')
+    expect(extractToken({ url: '/ws?access_token=node' }, sources)).toBe('node')
+  })
+
+  it('should try sources in order', () => {
+    const sources: TokenSource[] = [
+      { type: 'header' },
+      { type: 'cookie', name: 'vultur_session' },
+      { type: 'custom', extract: req => req.socketToken },
+    ]
+
+    expect(extractToken({ headers: { authorization: 'Bearer header' }, cookies: { vultur_session: 'cookie' } }, sources)).toBe('header')
+    expect(extractToken({ headers: {}, cookies: { vultur_session: 'cookie' } }, sources)).toBe('cookie')
+    expect(extractToken({ headers: {}, socketToken: 'custom' }, sources)).toBe('custom')
+    expect(extractToken({ headers: {} }, sources)).toBeNull()
+  })
+})
+
+describe('describeMissingToken', () => {
+  it('should explain why no token was found', () => {
+    expect(describeMissingToken({ headers: {} })).toBe('No authorization header provided')
+    expect(describeMissingToken({ headers: { authorization: 'Basic abc' } })).toBe('Invalid authorization header format')
+    expect(describeMissingToken({ headers: {} }, [{ type: 'cookie', name: 'session' }])).toBe('No token provided')
+  })
+})
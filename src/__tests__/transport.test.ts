@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createTransport, CLIENT_IDENTIFIER, VulturRequest } from '../transport'
+import { VERSION } from '../version'
+
+describe('createTransport', () => {
+  it('should add identifying headers', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response('{}'))
+    const transport = createTransport({ fetch: fetchImpl }, { applicationName: 'test-app', userAgent: true })
+
+    await transport('https://api.example.com/me', { headers: { Authorization: 'Bearer valid-token' } })
+
+    const headers: Headers = fetchImpl.mock.calls[0][1].headers
+    expect(headers.get('X-Vultur-Client')).toBe(`vultur-sso-client/${VERSION}`)
+    expect(headers.get('X-Vultur-Application')).toBe('test-app')
+    expect(headers.get('User-Agent')).toBe(CLIENT_IDENTIFIER)
+    expect(headers.get('Authorization')).toBe('Bearer valid-token')
+  })
+
+  it('should omit optional identifying headers', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response('{}'))
+    const transport = createTransport({ fetch: fetchImpl })
+
+    await transport('https://api.example.com/me', {})
+
+    const headers: Headers = fetchImpl.mock.calls[0][1].headers
+    expect(headers.has('X-Vultur-Application')).toBe(false)
+    expect(headers.has('User-Agent')).toBe(false)
+  })
+
+  it('should let onRequest modify the request', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response('{}'))
+    const transport = createTransport({
+      fetch: fetchImpl,
+      onRequest: request => {
+        request.init.headers.set('traceparent', '00-trace-span-01')
+      },
+    })
+
+    await transport('https://api.example.com/me', {})
+
+    expect(fetchImpl.mock.calls[0][1].headers.get('traceparent')).toBe('00-trace-span-01')
+  })
+
+  it('should let onRequest replace the request', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response('{}'))
+    const transport = createTransport({
+      fetch: fetchImpl,
+      onRequest: async (request): Promise<VulturRequest> => ({
+        ...request,
+        url: request.url.replace('api.example.com', 'internal.example.com'),
+      }),
+    })
+
+    await transport('https://api.example.com/me', {})
+
+    expect(fetchImpl.mock.calls[0][0]).toBe('https://internal.example.com/me')
+  })
+
+  it('should pass responses through onResponse', async () => {
+    const original = new Response('{}', { status: 200 })
+    const replacement = new Response(null, { status: 503 })
+    const onResponse = vi.fn().mockResolvedValue(replacement)
+    const transport = createTransport({ fetch: vi.fn().mockResolvedValue(original), onResponse })
+
+    const response = await transport('https://api.example.com/me', {})
+
+    expect(response).toBe(replacement)
+    expect(onResponse).toHaveBeenCalledWith(original, expect.objectContaining({ url: 'https://api.example.com/me' }))
+  })
+
+  it('should use the global fetch by default', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch')
+    const transport = createTransport({})
+
+    const response = await transport('https://api.example.com/health', {})
+
+    expect(response.ok).toBe(true)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    fetchSpy.mockRestore()
+  })
+})
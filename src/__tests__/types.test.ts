@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, expectTypeOf } from 'vitest'
 import type {
+  ScopeIdOf,
   PermissionScope,
   PermissionEffect,
   Permission,
@@ -10,7 +11,10 @@ import type {
   VulturSSOClientConfig,
   UseVulturPermissionsOptions,
 } from '../types'
-import { VulturSSOError } from '../server'
+import { VulturSSOError, ServerPermissionChecker, VulturIdentServerClient, withPermission } from '../server'
+import { PermissionPatterns, VulturPermissionConfigBuilder } from '../config'
+import { RoleMappingPermissionResolver } from '../permissions'
+import { usePermissionCheck } from '../hooks'
 
 describe('TypeScript Types', () => {
   describe('PermissionScope', () => {
@@ -435,3 +439,62 @@ describe('Type Inference', () => {
     expect(minimalConfig.applicationName).toBe('test')
   })
 })
+
+describe('Typed scope ids', () => {
+  const permissionConfig = VulturPermissionConfigBuilder.create('test-app')
+    .addPermissionScope({ id: 'tribes:read', name: 'View Tribes', resource: 'tribes', action: 'read' })
+    .addPermissionScopes(PermissionPatterns.crud('fleet'))
+    .addPermissionScopes(PermissionPatterns.tribal('warehouse'))
+    .addDefaultPermission('tribes:read', 'allow')
+    .build()
+
+  type AppScope = ScopeIdOf<typeof permissionConfig>
+
+  it('should infer the scope ids added to the builder', () => {
+    expectTypeOf<AppScope>().toEqualTypeOf<
+      | 'tribes:read'
+      | 'fleet:read'
+      | 'fleet:write'
+      | 'fleet:delete'
+      | 'fleet:admin'
+      | 'warehouse:member'
+      | 'warehouse:officer'
+      | 'warehouse:director'
+      | 'warehouse:ceo'
+    >()
+    expect(permissionConfig.permissions).toHaveLength(9)
+  })
+
+  it('should reject unknown scope ids', () => {
+    const builder = VulturPermissionConfigBuilder.create('test-app').addPermissionScopes(PermissionPatterns.crud('fleet'))
+    // @ts-expect-error unknown scope id
+    expect(() => builder.addDefaultPermission('flet:read')).toThrow("Permission scope 'flet:read' not found")
+
+    const resolver = new RoleMappingPermissionResolver(permissionConfig, { roles: {} })
+    const client = new VulturIdentServerClient({ identApiUrl: 'http://localhost' })
+    const checker = new ServerPermissionChecker(client, 'test-app', { resolver })
+
+    expectTypeOf(checker.hasPermission).parameter(1).toEqualTypeOf<AppScope>()
+    withPermission(client, 'test-app', 'fleet:write', async () => 'ok', { resolver })
+    // @ts-expect-error unknown scope id
+    withPermission(client, 'test-app', 'flet:write', async () => 'ok', { resolver })
+
+    // Type-only: hooks cannot run outside a component
+    const useChecks = () => {
+      const { hasPermission, hasAnyPermission } = usePermissionCheck(resolver)
+      hasPermission('fleet:read')
+      hasAnyPermission(['warehouse:ceo'], { resourceId: 42 })
+      // @ts-expect-error unknown scope id
+      hasPermission('flet:read')
+    }
+    expect(useChecks).toBeTypeOf('function')
+  })
+
+  it('should accept any string when scopes are added without chaining', () => {
+    const builder = VulturPermissionConfigBuilder.create('test-app')
+    PermissionPatterns.crud('fleet').forEach(scope => builder.addPermissionScope(scope))
+
+    const config = builder.addDefaultPermission('fleet:read', 'allow').build()
+    expectTypeOf<ScopeIdOf<typeof config>>().toEqualTypeOf<string>()
+  })
+})
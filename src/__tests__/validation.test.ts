@@ -0,0 +1,227 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  assertValidPermissionConfig,
+  assertValidResponse,
+  isPermission,
+  isPermissionScope,
+  isUserInfo,
+  isUserRole,
+  isVulturPermissionConfig,
+  readValidatedResponse,
+  validateUserInfo,
+  validatePermissionConfig,
+  validateUserRoles,
+  validateVulturPermissionConfig,
+} from '../validation'
+import type { VulturPermissionConfig } from '../types'
+import { mockUserInfo, mockUserRoles } from './mocks/server'
+
+const permissionConfig: VulturPermissionConfig = {
+  applicationName: 'test-app',
+  version: '1.0.0',
+  permissions: [{ id: 'fleet:read', name: 'Read Fleet', resource: 'fleet', action: 'read' }],
+  defaultPermissions: [
+    {
+      scope: { id: 'fleet:read', name: 'Read Fleet', resource: 'fleet', action: 'read' },
+      effect: 'allow',
+    },
+  ],
+  lastUpdated: '2024-01-01T00:00:00Z',
+}
+
+describe('type guards', () => {
+  it('should accept well-formed values', () => {
+    expect(isUserInfo(mockUserInfo)).toBe(true)
+    expect(isUserInfo({ ...mockUserInfo, tribe_id: null })).toBe(true)
+    expect(isUserRole(mockUserRoles[0])).toBe(true)
+    expect(isPermissionScope(permissionConfig.permissions[0])).toBe(true)
+    expect(isPermission(permissionConfig.defaultPermissions![0])).toBe(true)
+    expect(isVulturPermissionConfig(permissionConfig)).toBe(true)
+  })
+
+  it('should reject malformed values', () => {
+    expect(isUserInfo(null)).toBe(false)
+    expect(isUserInfo({ ...mockUserInfo, roles: 'Fleet Member' })).toBe(false)
+    expect(isUserRole({ ...mockUserRoles[0], id: '1' })).toBe(false)
+    expect(isPermission({ scope: permissionConfig.permissions[0], effect: 'maybe' })).toBe(false)
+    expect(isVulturPermissionConfig({ ...permissionConfig, permissions: undefined })).toBe(false)
+  })
+})
+
+describe('validators', () => {
+  it('should name the offending field', () => {
+    expect(validateUserInfo({ ...mockUserInfo, is_admin: 'no' })).toEqual({
+      path: 'is_admin',
+      expected: 'a boolean',
+    })
+    expect(validateUserInfo([])).toEqual({ path: '(root)', expected: 'an object' })
+  })
+
+  it('should report paths into arrays and nested objects', () => {
+    expect(validateUserRoles([mockUserRoles[0], { ...mockUserRoles[1], name: 42 }])).toEqual({
+      path: '[1].name',
+      expected: 'a string',
+    })
+    expect(
+      validateVulturPermissionConfig({
+        ...permissionConfig,
+        defaultPermissions: [{ scope: { ...permissionConfig.permissions[0], id: 7 }, effect: 'allow' }],
+      })
+    ).toEqual({ path: 'defaultPermissions[0].scope.id', expected: 'a string' })
+  })
+
+  it('should only check essential fields in lenient mode', () => {
+    const drifted = { ...mockUserInfo, character_name: null, tribe_id: 'none' }
+
+    expect(validateUserInfo(drifted, 'strict')).toEqual({ path: 'character_name', expected: 'a string' })
+    expect(validateUserInfo(drifted, 'lenient')).toBeNull()
+    expect(validateUserInfo({ ...drifted, roles: undefined }, 'lenient')).toEqual({
+      path: 'roles',
+      expected: 'an array of strings',
+    })
+  })
+})
+
+describe('assertValidResponse', () => {
+  it('should return the value when valid', () => {
+    expect(assertValidResponse(mockUserInfo, validateUserInfo, 'Op')).toBe(mockUserInfo)
+  })
+
+  it('should throw INVALID_RESPONSE naming the field', () => {
+    expect(() => assertValidResponse({ ...mockUserInfo, roles: null }, validateUserInfo, 'Get user info failed')).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_RESPONSE',
+        message: 'Get user info failed: invalid response, roles must be an array of strings',
+        details: { path: 'roles', expected: 'an array of strings' },
+        retryable: false,
+      })
+    )
+  })
+})
+
+describe('readValidatedResponse', () => {
+  it('should attach the status and request id', async () => {
+    const response = Response.json({ eth_address: 1 }, { headers: { 'X-Request-Id': 'req-9' } })
+
+    await expect(readValidatedResponse(response, validateUserInfo, 'Op')).rejects.toThrow(
+      expect.objectContaining({ code: 'INVALID_RESPONSE', status: 200, requestId: 'req-9' })
+    )
+  })
+})
+
+describe('validatePermissionConfig', () => {
+  const scope = (id: string, resource = id.split(':')[0], action = id.split(':').pop() ?? '') => ({
+    id,
+    name: id,
+    resource,
+    action,
+  })
+
+  it('should accept a well-formed configuration', () => {
+    expect(validatePermissionConfig(permissionConfig)).toEqual({ valid: true, errors: [], warnings: [] })
+  })
+
+  it('should report structural errors with paths', () => {
+    const result = validatePermissionConfig({
+      applicationName: '',
+      version: '1.0',
+      permissions: [scope('fleet:read'), scope('fleet:read'), scope('fleet'), { ...scope('fleet:write'), resource: '' }],
+      defaultPermissions: [{ scope: scope('tribe:read'), effect: 'allow' }],
+      lastUpdated: 'yesterday',
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors.map(issue => [issue.code, issue.path])).toEqual([
+      ['missing-application-name', 'applicationName'],
+      ['invalid-version', 'version'],
+      ['invalid-last-updated', 'lastUpdated'],
+      ['duplicate-scope-id', 'permissions[1].id'],
+      ['invalid-scope-id', 'permissions[2].id'],
+      ['empty-resource', 'permissions[3].resource'],
+      ['unknown-default-scope', 'defaultPermissions[0].scope.id'],
+    ])
+    expect(result.errors[1].message).toBe("Version '1.0' is not a semantic version (e.g. 1.0.0)")
+  })
+
+  it('should report malformed entries instead of throwing', () => {
+    const result = validatePermissionConfig({
+      ...permissionConfig,
+      permissions: [null, scope('fleet:read'), 'fleet:write', { ...scope('fleet:dock'), implies: 'fleet:read' }],
+      defaultPermissions: [null, { scope: scope('fleet:read'), effect: 'allwo' }, { scope: 'fleet:read', effect: 'allow' }],
+    } as any)
+
+    expect(result.valid).toBe(false)
+    expect(result.errors.map(issue => [issue.code, issue.path, issue.message])).toEqual([
+      ['invalid-shape', 'permissions[0]', 'permissions[0] must be an object'],
+      ['invalid-shape', 'permissions[2]', 'permissions[2] must be an object'],
+      ['invalid-shape', 'permissions[3].implies', 'permissions[3].implies must be an array of strings'],
+      ['invalid-shape', 'defaultPermissions[0]', 'defaultPermissions[0] must be an object'],
+      ['invalid-shape', 'defaultPermissions[1].effect', "defaultPermissions[1].effect must be 'allow' or 'deny'"],
+      ['invalid-shape', 'defaultPermissions[2].scope', 'defaultPermissions[2].scope must be an object'],
+    ])
+  })
+
+  it('should reject a configuration that is not an object', () => {
+    expect(validatePermissionConfig(null as any).errors).toEqual([
+      { severity: 'error', code: 'invalid-shape', path: '(root)', message: '(root) must be an object' },
+    ])
+  })
+
+  it('should report implication problems', () => {
+    const result = validatePermissionConfig({
+      ...permissionConfig,
+      permissions: [{ ...scope('fleet:read'), implies: ['fleet:write'] }],
+      defaultPermissions: [],
+    })
+
+    expect(result.errors).toEqual([
+      {
+        severity: 'error',
+        code: 'invalid-implication',
+        path: 'permissions',
+        message: "Permission scope 'fleet:read' implies unknown scopes: fleet:write",
+      },
+    ])
+  })
+
+  it('should report warnings separately', () => {
+    const result = validatePermissionConfig({
+      ...permissionConfig,
+      permissions: [scope('fleet:read'), scope('fleet:dock', 'fleet', 'moor')],
+      defaultPermissions: [permissionConfig.defaultPermissions![0], permissionConfig.defaultPermissions![0]],
+      lastUpdated: '2999-01-01T00:00:00Z',
+    })
+
+    expect(result.valid).toBe(true)
+    expect(result.warnings.map(issue => issue.code)).toEqual([
+      'future-last-updated',
+      'scope-id-mismatch',
+      'duplicate-default-permission',
+    ])
+  })
+})
+
+describe('assertValidPermissionConfig', () => {
+  const withWarning = { ...permissionConfig, lastUpdated: '2999-01-01T00:00:00Z' }
+
+  it('should throw CONFIG_ERROR listing every error', () => {
+    expect(() => assertValidPermissionConfig({ ...permissionConfig, version: 'v1', permissions: [] })).toThrow(
+      expect.objectContaining({
+        code: 'CONFIG_ERROR',
+        message:
+          "Invalid permission configuration for test-app: Version 'v1' is not a semantic version (e.g. 1.0.0); Default permission references unknown scope 'fleet:read'",
+      })
+    )
+  })
+
+  it('should report warnings unless they are treated as errors', () => {
+    const onWarning = vi.fn()
+
+    expect(() => assertValidPermissionConfig(withWarning, { onWarning })).not.toThrow()
+    expect(onWarning).toHaveBeenCalledWith([expect.objectContaining({ code: 'future-last-updated' })])
+    expect(() => assertValidPermissionConfig(withWarning, { warningsAsErrors: true })).toThrow(
+      expect.objectContaining({ code: 'CONFIG_ERROR' })
+    )
+  })
+})
+
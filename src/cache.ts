@@ -0,0 +1,273 @@
+/**
+ * In-process caching utilities for vultur-sso-client
+ * Used by the server client to avoid a round-trip to vultur-ident-api on every request
+ */
+
+/**
+ * Cache hit/miss statistics
+ */
+export type CacheStats = {
+  /** Number of lookups answered from the cache */
+  hits: number;
+  /** Number of lookups that had to go to vultur-ident-api */
+  misses: number;
+  /** Number of entries evicted to stay within maxEntries (when the store can report it) */
+  evictions?: number;
+  /** Number of entries currently held (when the store can report it) */
+  size?: number;
+};
+
+/**
+ * Options for the LRU cache
+ */
+export type LRUCacheOptions = {
+  /** Maximum number of entries before the least recently used one is evicted */
+  maxEntries?: number;
+  /** Time-to-live for each entry in milliseconds */
+  ttl: number;
+};
+
+type CacheEntry<V> = {
+  value: V;
+  expiresAt: number;
+};
+
+/**
+ * Bounded least-recently-used cache with per-entry expiry
+ */
+export class LRUCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  private maxEntries: number;
+  private ttl: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: LRUCacheOptions) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.ttl = options.ttl;
+  }
+
+  /**
+   * Get a value, refreshing its position in the LRU order
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-insert so the entry becomes the most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entry when full
+   */
+  set(key: string, value: V, ttl: number = this.ttl): void {
+    if (ttl <= 0 || this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): Required<CacheStats> {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+    };
+  }
+}
+
+/**
+ * Storage backend for cached identity lookups.
+ * Implementations must treat `ttl` (milliseconds) as the entry lifetime.
+ */
+export interface VulturCacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Optional: drop every entry held by this store */
+  clear?(): Promise<void>;
+  /** Optional: report entry count and evictions */
+  getStats?(): Pick<CacheStats, 'evictions' | 'size'>;
+  /**
+   * Optional: add a member to a set and refresh the set's TTL. Adding must be
+   * atomic so concurrent writers keep each other's members; without this
+   * method they can drop each other's index updates.
+   */
+  addToSet?(key: string, member: string, ttl: number): Promise<void>;
+  /** Optional: members of a set written with addToSet */
+  getSetMembers?(key: string): Promise<string[]>;
+}
+
+/**
+ * Process-local cache store backed by an LRU cache
+ */
+export class InMemoryCacheStore implements VulturCacheStore {
+  private cache: LRUCache<unknown>;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.cache = new LRUCache<unknown>({
+      // Every entry is written with an explicit TTL
+      ttl: Number.MAX_SAFE_INTEGER,
+      maxEntries: options.maxEntries,
+    });
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get(key) as T | undefined;
+  }
+
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    this.cache.set(key, value, ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+  }
+
+  async addToSet(key: string, member: string, ttl: number): Promise<void> {
+    const members = (this.cache.get(key) as string[] | undefined) ?? [];
+    this.cache.set(key, members.includes(member) ? members : [...members, member], ttl);
+  }
+
+  async getSetMembers(key: string): Promise<string[]> {
+    return [...((this.cache.get(key) as string[] | undefined) ?? [])];
+  }
+
+  getStats(): Pick<CacheStats, 'evictions' | 'size'> {
+    const { evictions, size } = this.cache.getStats();
+    return { evictions, size };
+  }
+}
+
+/**
+ * Minimal Redis connection: anything that can send a raw command.
+ * Matches node-redis v4 `client.sendCommand([...])`; wrap ioredis as
+ * `{ sendCommand: ([cmd, ...args]) => redis.call(cmd, ...args) }`.
+ */
+export type RedisCommandClient = {
+  sendCommand(args: string[]): Promise<unknown>;
+};
+
+/**
+ * Cache store shared between instances through Redis (or any server speaking the Redis protocol)
+ */
+export class RedisCacheStore implements VulturCacheStore {
+  private keyPrefix: string;
+
+  constructor(private client: RedisCommandClient, options: { keyPrefix?: string } = {}) {
+    this.keyPrefix = options.keyPrefix ?? '';
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const raw = await this.client.sendCommand(['GET', this.keyPrefix + key]);
+    if (raw === null || raw === undefined) {
+      return undefined;
+    }
+    return JSON.parse(String(raw)) as T;
+  }
+
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    if (ttl <= 0) {
+      return;
+    }
+    await this.client.sendCommand(['SET', this.keyPrefix + key, JSON.stringify(value), 'PX', String(Math.ceil(ttl))]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.sendCommand(['DEL', this.keyPrefix + key]);
+  }
+
+  /**
+   * SADD is atomic; the TTL is refreshed with a separate PEXPIRE
+   */
+  async addToSet(key: string, member: string, ttl: number): Promise<void> {
+    if (ttl <= 0) {
+      return;
+    }
+    await this.client.sendCommand(['SADD', this.keyPrefix + key, member]);
+    await this.client.sendCommand(['PEXPIRE', this.keyPrefix + key, String(Math.ceil(ttl))]);
+  }
+
+  async getSetMembers(key: string): Promise<string[]> {
+    const members = await this.client.sendCommand(['SMEMBERS', this.keyPrefix + key]);
+    return Array.isArray(members) ? members.map(String) : [];
+  }
+
+  /**
+   * Delete every key under `keyPrefix` with SCAN and DEL. Without a prefix
+   * only the `vultur:` keys written through namespaced stores are deleted,
+   * never the rest of the database.
+   */
+  async clear(): Promise<void> {
+    const pattern = `${(this.keyPrefix || 'vultur:').replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    do {
+      const reply = await this.client.sendCommand(['SCAN', cursor, 'MATCH', pattern, 'COUNT', '100']);
+      const [next, keys] = reply as [unknown, unknown[]];
+      cursor = String(next);
+      if (keys.length > 0) {
+        await this.client.sendCommand(['DEL', ...keys.map(String)]);
+      }
+    } while (cursor !== '0');
+  }
+}
+
+/**
+ * Scope a store to one application so several apps can share it
+ */
+export function namespaceCacheStore(store: VulturCacheStore, namespace: string): VulturCacheStore {
+  const prefix = `vultur:${namespace}:`;
+  return {
+    get: key => store.get(prefix + key),
+    set: (key, value, ttl) => store.set(prefix + key, value, ttl),
+    delete: key => store.delete(prefix + key),
+    getStats: store.getStats ? () => store.getStats!() : undefined,
+    addToSet: store.addToSet ? (key, member, ttl) => store.addToSet!(prefix + key, member, ttl) : undefined,
+    getSetMembers: store.getSetMembers ? key => store.getSetMembers!(prefix + key) : undefined,
+  };
+}
+
+/**
+ * Hash a token so raw JWTs are never held as cache keys
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
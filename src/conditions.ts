@@ -0,0 +1,164 @@
+/**
+ * Attribute-based conditions on permissions
+ * A condition compares attributes of the user and of the resource being accessed,
+ * e.g. `resource.tribe_id == user.tribe_id`
+ */
+
+import { UserInfo } from './types';
+import { VulturSSOError } from './errors';
+
+/**
+ * What conditions are evaluated against
+ */
+export type ConditionContext = {
+  /** The user being checked, available as `user.*` */
+  user: UserInfo;
+  /** Optional: the resource being accessed, available as `resource.*` */
+  resource?: Record<string, unknown>;
+};
+
+export type ConditionOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+type Operand =
+  | { kind: 'attribute'; root: 'user' | 'resource'; path: string[] }
+  | { kind: 'literal'; value: string | number | boolean | null };
+
+type ParsedCondition = {
+  left: Operand;
+  operator: ConditionOperator;
+  right: Operand;
+};
+
+const OPERAND = `(?:user|resource)(?:\\.[A-Za-z_$][\\w$]*)+|-?\\d+(?:\\.\\d+)?|'[^']*'|"[^"]*"|true|false|null`;
+const CONDITION_PATTERN = new RegExp(`^\\s*(${OPERAND})(?:\\s*(==|!=|<=|>=|<|>)\\s*|\\s+(in)\\s+)(${OPERAND})\\s*$`);
+
+const parsed = new Map<string, ParsedCondition>();
+
+function parseOperand(token: string): Operand {
+  if (token.startsWith('user.') || token.startsWith('resource.')) {
+    const [root, ...path] = token.split('.');
+    return { kind: 'attribute', root: root as 'user' | 'resource', path };
+  }
+  if (token.startsWith("'") || token.startsWith('"')) {
+    return { kind: 'literal', value: token.slice(1, -1) };
+  }
+  if (token === 'true' || token === 'false') {
+    return { kind: 'literal', value: token === 'true' };
+  }
+  if (token === 'null') {
+    return { kind: 'literal', value: null };
+  }
+  return { kind: 'literal', value: Number(token) };
+}
+
+function parse(expression: string): ParsedCondition {
+  const cached = parsed.get(expression);
+  if (cached) {
+    return cached;
+  }
+
+  const match = CONDITION_PATTERN.exec(expression);
+  if (!match) {
+    throw new VulturSSOError(
+      'CONFIG_ERROR',
+      `Invalid permission condition '${expression}': expected '<operand> <operator> <operand>'`,
+      { condition: expression }
+    );
+  }
+
+  const condition: ParsedCondition = {
+    left: parseOperand(match[1]),
+    operator: (match[2] ?? match[3]) as ConditionOperator,
+    right: parseOperand(match[4]),
+  };
+  parsed.set(expression, condition);
+  return condition;
+}
+
+function resolveOperand(operand: Operand, context: ConditionContext): unknown {
+  if (operand.kind === 'literal') {
+    return operand.value;
+  }
+
+  let value: unknown = context[operand.root];
+  for (const key of operand.path) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isMissing(operand: Operand, value: unknown): boolean {
+  return operand.kind === 'attribute' && (value === undefined || value === null);
+}
+
+function compare(left: unknown, operator: ConditionOperator, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case 'in':
+      return Array.isArray(right) && right.includes(left);
+  }
+
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+  const [a, b] = [left as number | string, right as number | string];
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+/**
+ * Check that a condition expression is well-formed, throwing CONFIG_ERROR otherwise
+ */
+export function parseCondition(expression: string): void {
+  parse(expression);
+}
+
+/**
+ * Evaluate a condition such as `resource.tribe_id == user.tribe_id`.
+ *
+ * Operands are `user.*` or `resource.*` attributes, or number, quoted string,
+ * boolean and null literals. A missing attribute (undefined or null) never
+ * satisfies a condition unless it is compared with the `null` literal, so a
+ * user without a tribe does not match resources without one.
+ */
+export function evaluateCondition(expression: string, context: ConditionContext): boolean {
+  const { left, operator, right } = parse(expression);
+  const leftValue = resolveOperand(left, context);
+  const rightValue = resolveOperand(right, context);
+
+  const comparesWithNull =
+    (left.kind === 'literal' && left.value === null) || (right.kind === 'literal' && right.value === null);
+  if (!comparesWithNull && (isMissing(left, leftValue) || isMissing(right, rightValue))) {
+    return false;
+  }
+
+  return compare(leftValue ?? null, operator, rightValue ?? null);
+}
+
+/**
+ * Whether every condition holds. Permissions without conditions always
+ * apply; conditional ones never apply without a context.
+ */
+export function conditionsHold(conditions: string[] | undefined, context?: ConditionContext): boolean {
+  if (!conditions || conditions.length === 0) {
+    return true;
+  }
+  return context !== undefined && conditions.every(condition => evaluateCondition(condition, context));
+}
@@ -1,14 +1,16 @@
 import { VulturSSOClientConfig, VulturPermissionConfig } from './types';
+import { PermissionConfigValidationOptions, assertValidPermissionConfig } from './validation';
 
 /**
- * Global configuration instance
+ * Configuration of the default instance
  */
 let globalConfig: VulturSSOClientConfig | null = null;
 
 /**
- * Initialize the VULTUR SSO Client with configuration
+ * Validate a client configuration and fill in defaults.
+ * Shared by initializeVulturSSO and createVulturSSO.
  */
-export function initializeVulturSSO(config: VulturSSOClientConfig): void {
+export function resolveVulturSSOConfig(config: VulturSSOClientConfig): VulturSSOClientConfig {
   // Validate required configuration
   if (!config.identApiUrl) {
     throw new Error('identApiUrl is required in VulturSSOClientConfig');
@@ -20,14 +22,22 @@ export function initializeVulturSSO(config: VulturSSOClientConfig): void {
     throw new Error('permissionConfig is required in VulturSSOClientConfig');
   }
 
+  assertValidPermissionConfig(config.permissionConfig, config.permissionConfigValidation);
+
   // Set defaults
-  const configWithDefaults: VulturSSOClientConfig = {
+  return {
     ...config,
     enableCache: config.enableCache ?? true,
     cacheDuration: config.cacheDuration ?? 5 * 60 * 1000, // 5 minutes
   };
+}
 
-  globalConfig = configWithDefaults;
+/**
+ * Initialize the default VULTUR SSO Client instance, read by the exported
+ * hooks and well-known handlers. Use createVulturSSO for isolated instances.
+ */
+export function initializeVulturSSO(config: VulturSSOClientConfig): void {
+  globalConfig = resolveVulturSSOConfig(config);
 }
 
 /**
@@ -40,6 +50,13 @@ export function getVulturSSOConfig(): VulturSSOClientConfig {
   return globalConfig;
 }
 
+/**
+ * The default instance's configuration, or null before initializeVulturSSO
+ */
+export function findVulturSSOConfig(): VulturSSOClientConfig | null {
+  return globalConfig;
+}
+
 /**
  * Get the permission configuration for .well-known endpoint
  */
@@ -56,9 +73,30 @@ export function resetVulturSSOConfig(): void {
 }
 
 /**
- * Create a permission configuration builder
+ * Scope definition accepted by VulturPermissionConfigBuilder
+ */
+export type PermissionScopeDefinition<Id extends string = string> = {
+  id: Id;
+  name: string;
+  description?: string;
+  resource: string;
+  action: string;
+  implies?: string[];
+};
+
+/**
+ * Scope ids known to a builder; builders that have not tracked any ids
+ * (scopes added without chaining) accept every string
  */
-export class VulturPermissionConfigBuilder {
+type KnownScopeId<S extends string> = [S] extends [never] ? string : S;
+
+/**
+ * Create a permission configuration builder.
+ * The type parameter accumulates the ids of the added scopes, so
+ * `addDefaultPermission` and checks against the built config only accept
+ * known scope ids.
+ */
+export class VulturPermissionConfigBuilder<S extends string = never> {
   private config: Partial<VulturPermissionConfig> = {
     permissions: [],
     defaultPermissions: [],
@@ -72,21 +110,25 @@ export class VulturPermissionConfigBuilder {
     return builder;
   }
 
-  addPermissionScope(scope: {
-    id: string;
-    name: string;
-    description?: string;
-    resource: string;
-    action: string;
-  }): VulturPermissionConfigBuilder {
+  addPermissionScope<Id extends string>(scope: PermissionScopeDefinition<Id>): VulturPermissionConfigBuilder<S | Id> {
     if (!this.config.permissions) {
       this.config.permissions = [];
     }
     this.config.permissions.push(scope);
-    return this;
+    return this as VulturPermissionConfigBuilder<S | Id>;
+  }
+
+  /**
+   * Add several scopes at once, e.g. the output of PermissionPatterns
+   */
+  addPermissionScopes<Id extends string>(
+    scopes: ReadonlyArray<PermissionScopeDefinition<Id>>
+  ): VulturPermissionConfigBuilder<S | Id> {
+    scopes.forEach(scope => this.addPermissionScope(scope));
+    return this as VulturPermissionConfigBuilder<S | Id>;
   }
 
-  addDefaultPermission(scopeId: string, effect: 'allow' | 'deny' = 'deny'): VulturPermissionConfigBuilder {
+  addDefaultPermission(scopeId: KnownScopeId<S>, effect: 'allow' | 'deny' = 'deny'): VulturPermissionConfigBuilder<S> {
     if (!this.config.permissions) {
       throw new Error('Must add permission scopes before adding default permissions');
     }
@@ -107,35 +149,35 @@ export class VulturPermissionConfigBuilder {
     return this;
   }
 
-  build(): VulturPermissionConfig {
-    if (!this.config.applicationName) {
-      throw new Error('Application name is required');
-    }
-    if (!this.config.version) {
-      throw new Error('Version is required');
-    }
-    if (!this.config.permissions) {
-      throw new Error('At least one permission scope is required');
-    }
+  /**
+   * Validate and return the configuration, stamping `lastUpdated`.
+   * Throws CONFIG_ERROR listing every problem found by validatePermissionConfig.
+   */
+  build(options: PermissionConfigValidationOptions = {}): VulturPermissionConfig<KnownScopeId<S>> {
+    this.config.lastUpdated = new Date().toISOString();
+    assertValidPermissionConfig(this.config as VulturPermissionConfig, options);
 
-    return this.config as VulturPermissionConfig;
+    return this.config as VulturPermissionConfig<KnownScopeId<S>>;
   }
 }
 
+type PatternScope<Id extends string> = PermissionScopeDefinition<Id> & {
+  description: string;
+  implies: string[];
+};
+
 /**
  * Helper function to create common permission patterns
  */
 export const PermissionPatterns = {
   /**
    * Create CRUD permissions for a resource
+   * admin implies write and delete, write implies read
    */
-  crud(resource: string, resourceDisplayName?: string): Array<{
-    id: string;
-    name: string;
-    description: string;
-    resource: string;
-    action: string;
-  }> {
+  crud<R extends string>(
+    resource: R,
+    resourceDisplayName?: string
+  ): Array<PatternScope<`${R}:${'read' | 'write' | 'delete' | 'admin'}`>> {
     const displayName = resourceDisplayName || resource;
     return [
       {
@@ -144,6 +186,7 @@ export const PermissionPatterns = {
         description: `View ${displayName} data`,
         resource,
         action: 'read',
+        implies: [],
       },
       {
         id: `${resource}:write`,
@@ -151,6 +194,7 @@ export const PermissionPatterns = {
         description: `Create and update ${displayName} data`,
         resource,
         action: 'write',
+        implies: [`${resource}:read`],
       },
       {
         id: `${resource}:delete`,
@@ -158,6 +202,7 @@ export const PermissionPatterns = {
         description: `Delete ${displayName} data`,
         resource,
         action: 'delete',
+        implies: [],
       },
       {
         id: `${resource}:admin`,
@@ -165,20 +210,19 @@ export const PermissionPatterns = {
         description: `Full administrative access to ${displayName}`,
         resource,
         action: 'admin',
+        implies: [`${resource}:write`, `${resource}:delete`],
       },
     ];
   },
 
   /**
    * Create tribal hierarchy permissions
+   * Each rank implies the one below: ceo, director, officer, member
    */
-  tribal(resource: string, resourceDisplayName?: string): Array<{
-    id: string;
-    name: string;
-    description: string;
-    resource: string;
-    action: string;
-  }> {
+  tribal<R extends string>(
+    resource: R,
+    resourceDisplayName?: string
+  ): Array<PatternScope<`${R}:${'member' | 'officer' | 'director' | 'ceo'}`>> {
     const displayName = resourceDisplayName || resource;
     return [
       {
@@ -187,6 +231,7 @@ export const PermissionPatterns = {
         description: `Basic member access to ${displayName}`,
         resource,
         action: 'member',
+        implies: [],
       },
       {
         id: `${resource}:officer`,
@@ -194,6 +239,7 @@ export const PermissionPatterns = {
         description: `Officer-level access to ${displayName}`,
         resource,
         action: 'officer',
+        implies: [`${resource}:member`],
       },
       {
         id: `${resource}:director`,
@@ -201,6 +247,7 @@ export const PermissionPatterns = {
         description: `Director-level access to ${displayName}`,
         resource,
         action: 'director',
+        implies: [`${resource}:officer`],
       },
       {
         id: `${resource}:ceo`,
@@ -208,6 +255,7 @@ export const PermissionPatterns = {
         description: `CEO-level access to ${displayName}`,
         resource,
         action: 'ceo',
+        implies: [`${resource}:director`],
       },
     ];
   },
@@ -2,95 +2,319 @@ import { NextRequest, NextResponse } from 'next/server';
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { getPermissionConfig } from './config';
 import { VulturPermissionConfig } from './types';
+import { PROBLEM_CONTENT_TYPE, ProblemDetails, createProblem, sendProblem } from './problem';
+import { base64UrlEncode } from './jwt';
+import {
+  PERMISSION_SIGNATURE_HEADER,
+  PermissionConfigSigningOptions,
+  canonicalJson,
+  createPermissionConfigSigner,
+} from './signing';
 
 /**
- * Next.js route handler for serving .well-known/vultur-permissions
- * 
- * Usage in your Next.js app:
- * Create a file at: app/.well-known/vultur-permissions/route.ts
- * 
- * ```typescript
- * import { createVulturPermissionsHandler } from '@vultur-evefrontier/vultur-sso-client';
- * 
- * export const GET = createVulturPermissionsHandler();
- * ```
+ * Options for the well-known handlers
  */
-export function createVulturPermissionsHandler() {
-  return async function handler(request: NextRequest): Promise<NextResponse> {
-    try {
-      const config = getPermissionConfig();
-      
-      // Set appropriate headers
-      const headers = new Headers({
-        'Content-Type': 'application/json',
-        'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET',
-        'Access-Control-Allow-Headers': 'Content-Type',
-      });
+export type VulturPermissionsHandlerOptions = {
+  /** Optional: sign the configuration and send the detached JWS in the X-Vultur-Signature header */
+  signing?: PermissionConfigSigningOptions;
+  /** Optional: origins allowed to read the document from a browser; listed origins are reflected with `Vary: Origin` (default: '*') */
+  allowedOrigins?: '*' | string[];
+  /** Optional: Cache-Control header, as a header value or a policy (default: 'public, max-age=300') */
+  cacheControl?: string | PermissionsCachePolicy;
+  /** Optional: extra headers added to every response, overriding the defaults */
+  headers?: Record<string, string>;
+};
 
-      return new NextResponse(JSON.stringify(config, null, 2), {
-        status: 200,
-        headers,
-      });
-    } catch (error) {
-      console.error('Error serving vultur-permissions:', error);
-      
-      const errorResponse = {
-        error: 'Internal server error',
-        message: 'Failed to load permission configuration',
-        timestamp: new Date().toISOString(),
-      };
+/**
+ * Cache-Control policy for the well-known document
+ */
+export type PermissionsCachePolicy = {
+  /** Seconds browsers and pollers may reuse the document */
+  maxAge: number;
+  /** Optional: seconds shared caches (CDNs) may reuse the document */
+  sMaxAge?: number;
+  /** Optional: seconds a stale document may be served while it is revalidated */
+  staleWhileRevalidate?: number;
+  /** Optional: only let browsers cache the document, not shared caches (default: false) */
+  private?: boolean;
+};
 
-      return new NextResponse(JSON.stringify(errorResponse, null, 2), {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-    }
+/**
+ * HTTP validators for a permission configuration
+ */
+export type PermissionConfigValidators = {
+  /** Weak ETag derived from a SHA-256 hash of the configuration, without `lastUpdated` */
+  etag: string;
+  /** HTTP date taken from `lastUpdated`, when it is a valid timestamp */
+  lastModified?: string;
+};
+
+/**
+ * Compute the ETag and Last-Modified headers for a permission configuration.
+ * The ETag is weak because App Router and Pages Router handlers format the
+ * same configuration differently. It leaves out `lastUpdated`, which build()
+ * restamps on every call, so rebuilding the same scopes keeps the ETag.
+ */
+export async function getPermissionConfigValidators(config: VulturPermissionConfig): Promise<PermissionConfigValidators> {
+  const { lastUpdated: _lastUpdated, ...content } = config;
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(content)));
+  const lastUpdated = config.lastUpdated ? Date.parse(config.lastUpdated) : NaN;
+
+  return {
+    etag: `W/"${base64UrlEncode(new Uint8Array(digest))}"`,
+    ...(!Number.isNaN(lastUpdated) && { lastModified: new Date(lastUpdated).toUTCString() }),
   };
 }
 
 /**
- * Alternative static configuration handler for when you want to serve
- * a static configuration without using the global config
+ * Whether a conditional GET can be answered with 304 Not Modified.
+ * If-Modified-Since is ignored when If-None-Match is present (RFC 9110).
  */
-export function createStaticVulturPermissionsHandler(config: VulturPermissionConfig) {
-  return async function handler(request: NextRequest): Promise<NextResponse> {
+function isNotModified(
+  validators: PermissionConfigValidators,
+  ifNoneMatch: string | null | undefined,
+  ifModifiedSince: string | null | undefined
+): boolean {
+  if (ifNoneMatch) {
+    const opaque = (etag: string) => etag.trim().replace(/^W\//, '');
+    return ifNoneMatch.split(',').some(etag => etag.trim() === '*' || opaque(etag) === opaque(validators.etag));
+  }
+
+  if (ifModifiedSince && validators.lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && Date.parse(validators.lastModified) <= since;
+  }
+
+  return false;
+}
+
+const ALLOWED_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Request headers a preflight may ask for: conditional GETs send If-None-Match
+ * and If-Modified-Since, which are not CORS-safelisted
+ */
+const PREFLIGHT_ALLOW_HEADERS = 'Content-Type, If-None-Match, If-Modified-Since';
+
+type Signer = ReturnType<typeof createPermissionConfigSigner>;
+
+/**
+ * Request as seen by the handlers, independent of the router style
+ */
+type PermissionsRequest = {
+  method: string;
+  header: (name: string) => string | null | undefined;
+};
+
+/**
+ * Response as decided by the handlers; each router style renders it
+ */
+type PermissionsResponse = {
+  status: number;
+  headers: Record<string, string>;
+  /** Configuration to send as the body (200 responses to GET) */
+  config?: VulturPermissionConfig;
+  /** Problem details to send as the body */
+  problem?: ProblemDetails;
+};
+
+function formatCacheControl(cacheControl: string | PermissionsCachePolicy): string {
+  if (typeof cacheControl === 'string') {
+    return cacheControl;
+  }
+  return [
+    cacheControl.private ? 'private' : 'public',
+    `max-age=${cacheControl.maxAge}`,
+    cacheControl.sMaxAge !== undefined && !cacheControl.private && `s-maxage=${cacheControl.sMaxAge}`,
+    cacheControl.staleWhileRevalidate !== undefined && `stale-while-revalidate=${cacheControl.staleWhileRevalidate}`,
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * CORS headers for a request. Origins outside the allowed list get no
+ * Access-Control-Allow-Origin, so browsers refuse to expose the response.
+ */
+function corsHeaders(origin: string | null | undefined, allowedOrigins: '*' | string[]): Record<string, string> {
+  if (allowedOrigins === '*') {
+    return { 'Access-Control-Allow-Origin': '*' };
+  }
+  const headers: Record<string, string> = { Vary: 'Origin' };
+  if (origin && allowedOrigins.includes(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  return headers;
+}
+
+/**
+ * Create the handler logic shared by the App Router and Pages Router handlers
+ */
+function createPermissionsResponder(
+  loadConfig: () => VulturPermissionConfig,
+  options: VulturPermissionsHandlerOptions,
+  errorLabel: string
+): (request: PermissionsRequest) => Promise<PermissionsResponse> {
+  const signer: Signer | null = options.signing ? createPermissionConfigSigner(options.signing) : null;
+  const allowedOrigins = options.allowedOrigins ?? '*';
+  const cacheControl = formatCacheControl(options.cacheControl ?? 'public, max-age=300'); // Cache for 5 minutes
+
+  return async request => {
+    const cors = corsHeaders(request.header('Origin'), allowedOrigins);
+    const allowed = cors['Access-Control-Allow-Origin'] !== undefined;
+    const withDefaults = (headers: Record<string, string>) => ({ ...cors, ...headers, ...options.headers });
+
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 204,
+        headers: withDefaults({
+          Allow: ALLOWED_METHODS.join(', '),
+          ...(allowed && {
+            'Access-Control-Allow-Methods': 'GET, HEAD',
+            'Access-Control-Allow-Headers': PREFLIGHT_ALLOW_HEADERS,
+            'Access-Control-Max-Age': '86400',
+          }),
+        }),
+      };
+    }
+
+    if (!ALLOWED_METHODS.includes(request.method)) {
+      return {
+        status: 405,
+        headers: withDefaults({ Allow: ALLOWED_METHODS.join(', ') }),
+        problem: createProblem(405, 'Only GET, HEAD and OPTIONS requests are supported'),
+      };
+    }
+
     try {
-      // Set appropriate headers
-      const headers = new Headers({
+      const config = loadConfig();
+      // Fail before hashing when the configuration cannot be serialized
+      JSON.stringify(config);
+
+      const validators = await getPermissionConfigValidators(config);
+      const headers: Record<string, string> = {
         'Content-Type': 'application/json',
-        'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET',
-        'Access-Control-Allow-Headers': 'Content-Type',
-      });
+        'Cache-Control': cacheControl,
+        ...(allowed && {
+          'Access-Control-Allow-Methods': 'GET',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        }),
+        ETag: validators.etag,
+        ...(validators.lastModified && { 'Last-Modified': validators.lastModified }),
+      };
+
+      if (isNotModified(validators, request.header('If-None-Match'), request.header('If-Modified-Since'))) {
+        return { status: 304, headers: withDefaults(headers) };
+      }
 
-      return new NextResponse(JSON.stringify(config, null, 2), {
+      if (signer) {
+        headers[PERMISSION_SIGNATURE_HEADER] = await signer(config);
+        headers['Access-Control-Expose-Headers'] = PERMISSION_SIGNATURE_HEADER;
+      }
+
+      return {
         status: 200,
-        headers,
-      });
-    } catch (error) {
-      console.error('Error serving static vultur-permissions:', error);
-      
-      const errorResponse = {
-        error: 'Internal server error',
-        message: 'Failed to load permission configuration',
-        timestamp: new Date().toISOString(),
+        headers: withDefaults(headers),
+        ...(request.method === 'GET' && { config }),
       };
+    } catch (error) {
+      console.error(errorLabel, error);
 
-      return new NextResponse(JSON.stringify(errorResponse, null, 2), {
+      return {
         status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+        headers: withDefaults({}),
+        problem: createProblem(500, 'Failed to load permission configuration'),
+      };
+    }
+  };
+}
+
+function createRouteHandler(
+  loadConfig: () => VulturPermissionConfig,
+  options: VulturPermissionsHandlerOptions,
+  errorLabel: string
+) {
+  const respond = createPermissionsResponder(loadConfig, options, errorLabel);
+
+  return async function handler(request: NextRequest): Promise<NextResponse> {
+    const response = await respond({
+      method: request.method,
+      header: name => request.headers.get(name),
+    });
+    const headers = new Headers(response.headers);
+
+    if (response.problem) {
+      headers.set('Content-Type', PROBLEM_CONTENT_TYPE);
+      return new NextResponse(JSON.stringify(response.problem, null, 2), { status: response.status, headers });
     }
+    const body = response.config ? JSON.stringify(response.config, null, 2) : null;
+    return new NextResponse(body, { status: response.status, headers });
   };
 }
 
+function createApiHandler(
+  loadConfig: () => VulturPermissionConfig,
+  options: VulturPermissionsHandlerOptions,
+  errorLabel: string
+) {
+  const respond = createPermissionsResponder(loadConfig, options, errorLabel);
+
+  return async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const response = await respond({
+      method: req.method ?? '',
+      header: name => readApiHeader(req, name.toLowerCase()),
+    });
+    for (const [name, value] of Object.entries(response.headers)) {
+      res.setHeader(name, value);
+    }
+
+    if (response.problem) {
+      return sendProblem(res, response.problem.status, response.problem);
+    }
+    if (response.config) {
+      return res.status(response.status).json(response.config);
+    }
+    return res.status(response.status).end();
+  };
+}
+
+/**
+ * Read a request header from a Pages Router request
+ */
+function readApiHeader(req: NextApiRequest, name: string): string | undefined {
+  const value = req.headers?.[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Next.js route handler for serving .well-known/vultur-permissions
+ * 
+ * Usage in your Next.js app:
+ * Create a file at: app/.well-known/vultur-permissions/route.ts
+ * 
+ * ```typescript
+ * import { createVulturPermissionsHandler } from '@vultur-evefrontier/vultur-sso-client';
+ * 
+ * const handler = createVulturPermissionsHandler();
+ *
+ * export { handler as GET, handler as HEAD, handler as OPTIONS };
+ * ```
+ *
+ * Other methods are answered with 405 when the handler is exported for them.
+ */
+export function createVulturPermissionsHandler(options: VulturPermissionsHandlerOptions = {}) {
+  return createRouteHandler(getPermissionConfig, options, 'Error serving vultur-permissions:');
+}
+
+/**
+ * Alternative static configuration handler for when you want to serve
+ * a static configuration without using the global config
+ */
+export function createStaticVulturPermissionsHandler(
+  config: VulturPermissionConfig,
+  options: VulturPermissionsHandlerOptions = {}
+) {
+  return createRouteHandler(() => config, options, 'Error serving static vultur-permissions:');
+}
+
 /**
  * Utility function to validate the well-known path format
  */
@@ -110,80 +334,18 @@ export function validateWellKnownPath(path: string): boolean {
  * export default createVulturPermissionsApiHandler();
  * ```
  */
-export function createVulturPermissionsApiHandler() {
-  return async function handler(req: NextApiRequest, res: NextApiResponse) {
-    // Only allow GET requests
-    if (req.method !== 'GET') {
-      res.setHeader('Allow', ['GET']);
-      return res.status(405).json({
-        error: 'Method not allowed',
-        message: 'Only GET requests are supported',
-      });
-    }
-
-    try {
-      const config = getPermissionConfig();
-      
-      // Set appropriate headers
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Cache-Control', 'public, max-age=300'); // Cache for 5 minutes
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-      return res.status(200).json(config);
-    } catch (error) {
-      console.error('Error serving vultur-permissions:', error);
-      
-      const errorResponse = {
-        error: 'Internal server error',
-        message: 'Failed to load permission configuration',
-        timestamp: new Date().toISOString(),
-      };
-
-      return res.status(500).json(errorResponse);
-    }
-  };
+export function createVulturPermissionsApiHandler(options: VulturPermissionsHandlerOptions = {}) {
+  return createApiHandler(getPermissionConfig, options, 'Error serving vultur-permissions:');
 }
 
 /**
  * Static configuration API handler for Pages Router
  */
-export function createStaticVulturPermissionsApiHandler(config: VulturPermissionConfig) {
-  return async function handler(req: NextApiRequest, res: NextApiResponse) {
-    // Only allow GET requests
-    if (req.method !== 'GET') {
-      res.setHeader('Allow', ['GET']);
-      return res.status(405).json({
-        error: 'Method not allowed',
-        message: 'Only GET requests are supported',
-      });
-    }
-
-    try {
-      // Validate that the config can be serialized to JSON
-      JSON.stringify(config);
-      
-      // Set appropriate headers
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Cache-Control', 'public, max-age=300'); // Cache for 5 minutes
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-      return res.status(200).json(config);
-    } catch (error) {
-      console.error('Error serving static vultur-permissions:', error);
-      
-      const errorResponse = {
-        error: 'Internal server error',
-        message: 'Failed to load permission configuration',
-        timestamp: new Date().toISOString(),
-      };
-
-      return res.status(500).json(errorResponse);
-    }
-  };
+export function createStaticVulturPermissionsApiHandler(
+  config: VulturPermissionConfig,
+  options: VulturPermissionsHandlerOptions = {}
+) {
+  return createApiHandler(() => config, options, 'Error serving static vultur-permissions:');
 }
 
 /**
@@ -0,0 +1,174 @@
+/**
+ * Error types for vultur-sso-client
+ */
+
+/**
+ * Error codes raised by vultur-sso-client
+ */
+export type VulturSSOErrorCode =
+  | 'UNAUTHORIZED'
+  | 'TOKEN_EXPIRED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'UPSTREAM_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'NETWORK_ERROR'
+  | 'CONFIG_ERROR'
+  | 'CIRCUIT_OPEN';
+
+/**
+ * Additional context attached to a VulturSSOError
+ */
+export type VulturSSOErrorOptions = {
+  /** HTTP status returned by vultur-ident-api, when there was a response */
+  status?: number;
+  /** Seconds to wait before retrying, from the Retry-After header */
+  retryAfter?: number;
+  /** Whether repeating the same request may succeed (default: derived from the code) */
+  retryable?: boolean;
+  /** Request id reported by vultur-ident-api (X-Request-Id) */
+  requestId?: string;
+};
+
+const RETRYABLE_CODES: VulturSSOErrorCode[] = ['RATE_LIMITED', 'TIMEOUT', 'UPSTREAM_ERROR', 'NETWORK_ERROR'];
+
+export class VulturSSOError extends Error {
+  public code: VulturSSOErrorCode;
+  public details?: unknown;
+  public status?: number;
+  public retryAfter?: number;
+  public retryable: boolean;
+  public requestId?: string;
+
+  constructor(code: VulturSSOErrorCode, message: string, details?: unknown, options: VulturSSOErrorOptions = {}) {
+    super(message);
+    this.name = 'VulturSSOError';
+    this.code = code;
+    this.details = details;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    this.retryable = options.retryable ?? RETRYABLE_CODES.includes(code);
+    this.requestId = options.requestId;
+  }
+}
+
+/**
+ * Whether an error is worth retrying. Non-VulturSSOErrors are treated as
+ * transient network failures.
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof VulturSSOError ? error.retryable : true;
+}
+
+/**
+ * Whether a response status indicates a transient upstream failure
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || (status >= 500 && status !== 501);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into seconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Build a VulturSSOError for a non-2xx response from vultur-ident-api.
+ * `messages` overrides the message for specific statuses.
+ */
+export function createResponseError(
+  response: Response,
+  operation: string,
+  messages: Partial<Record<number, string>> = {}
+): VulturSSOError {
+  const { status } = response;
+  const options: VulturSSOErrorOptions = {
+    status,
+    retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+    requestId: response.headers.get('X-Request-Id') ?? undefined,
+  };
+  const message = messages[status];
+
+  if (status === 401) {
+    const challenge = response.headers.get('WWW-Authenticate') ?? '';
+    if (/expired/i.test(challenge)) {
+      return new VulturSSOError('TOKEN_EXPIRED', message ?? 'Token has expired', undefined, options);
+    }
+    return new VulturSSOError('UNAUTHORIZED', message ?? 'Invalid or expired token', undefined, options);
+  }
+  if (status === 403) {
+    return new VulturSSOError('FORBIDDEN', message ?? 'Access denied', undefined, options);
+  }
+  if (status === 404) {
+    return new VulturSSOError('NOT_FOUND', message ?? 'Not found', undefined, options);
+  }
+  if (status === 429) {
+    return new VulturSSOError('RATE_LIMITED', message ?? `${operation}: rate limited`, undefined, options);
+  }
+  if (status === 408 || status === 504) {
+    return new VulturSSOError('TIMEOUT', message ?? `${operation}: upstream timed out (${status})`, undefined, options);
+  }
+  if (status >= 500) {
+    return new VulturSSOError('UPSTREAM_ERROR', message ?? `${operation}: ${status}`, undefined, {
+      ...options,
+      retryable: isRetryableStatus(status),
+    });
+  }
+  return new VulturSSOError('NETWORK_ERROR', message ?? `${operation}: ${status}`, undefined, {
+    ...options,
+    retryable: false,
+  });
+}
+
+/**
+ * Read a JSON body, raising INVALID_RESPONSE when it cannot be parsed
+ */
+export async function readJsonResponse<T>(response: Response, operation: string): Promise<T> {
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new VulturSSOError('INVALID_RESPONSE', `${operation}: response is not valid JSON`, error, {
+      status: response.status,
+      requestId: response.headers.get('X-Request-Id') ?? undefined,
+    });
+  }
+}
+
+const ERROR_STATUS: Record<VulturSSOErrorCode, number> = {
+  UNAUTHORIZED: 401,
+  TOKEN_EXPIRED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  TIMEOUT: 504,
+  UPSTREAM_ERROR: 502,
+  INVALID_RESPONSE: 502,
+  NETWORK_ERROR: 502,
+  CONFIG_ERROR: 500,
+  CIRCUIT_OPEN: 503,
+};
+
+/**
+ * HTTP status a route should answer with when it fails with `error`
+ */
+export function getErrorStatus(error: VulturSSOError): number {
+  return ERROR_STATUS[error.code] ?? 500;
+}
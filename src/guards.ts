@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { CheckedScopeId, UserInfo } from './types';
+import { VulturSSOError } from './errors';
+import { PROBLEM_CONTENT_TYPE, sendProblem, toProblemDetails } from './problem';
+import {
+  ServerPermissionChecker,
+  ServerPermissionCheckerOptions,
+  VulturIdentServerClient,
+  extractJWT,
+} from './server';
+
+/**
+ * Options for the Next.js route guards
+ */
+export type RouteGuardOptions = {
+  /** Optional: realm advertised in the WWW-Authenticate challenge (default: 'vultur') */
+  realm?: string;
+  /** Optional: build the JSON error body (default: RFC 7807 problem details) */
+  errorBody?: (error: VulturSSOError, status: number) => unknown;
+};
+
+/**
+ * Second argument passed to App Router route handlers
+ */
+export type RouteContext = {
+  params: Record<string, string | string[]>;
+};
+
+export type GuardFailure = {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+};
+
+type PermissionRequirement = {
+  checker: ServerPermissionChecker;
+  scope: string;
+};
+
+/**
+ * Validate the token and, when required, the permission.
+ * Throws VulturSSOError when the request must be rejected.
+ */
+async function authorizeRequest(
+  client: VulturIdentServerClient,
+  token: string | null,
+  requirement?: PermissionRequirement
+): Promise<UserInfo> {
+  if (!token) {
+    throw new VulturSSOError('UNAUTHORIZED', 'No JWT token provided');
+  }
+
+  const user = await client.validateToken(token);
+  if (requirement && !(await requirement.checker.checkForUser(user, requirement.scope, token))) {
+    throw new VulturSSOError('FORBIDDEN', `Permission '${requirement.scope}' required`, {
+      requiredPermission: requirement.scope,
+    });
+  }
+  return user;
+}
+
+function quote(value: string): string {
+  return value.replace(/["\\]/g, "'");
+}
+
+/**
+ * Bearer challenge as described in RFC 6750. Requests without a token get
+ * no error code so clients know to authenticate rather than refresh.
+ */
+function buildChallenge(realm: string, error: VulturSSOError, hadToken: boolean): string {
+  if (!hadToken) {
+    return `Bearer realm="${quote(realm)}"`;
+  }
+  return `Bearer realm="${quote(realm)}", error="invalid_token", error_description="${quote(error.message)}"`;
+}
+
+/**
+ * Turn an authorization error into a response description; anything that
+ * is not a VulturSSOError is rethrown untouched.
+ */
+export function toGuardFailure(error: unknown, hadToken: boolean, options: RouteGuardOptions): GuardFailure {
+  if (!(error instanceof VulturSSOError)) {
+    throw error;
+  }
+
+  const problem = toProblemDetails(error);
+  const status = problem.status;
+  const headers: Record<string, string> = {
+    'Content-Type': options.errorBody ? 'application/json' : PROBLEM_CONTENT_TYPE,
+  };
+  if (status === 401) {
+    headers['WWW-Authenticate'] = buildChallenge(options.realm ?? 'vultur', error, hadToken);
+  }
+  if (error.retryAfter !== undefined) {
+    headers['Retry-After'] = String(error.retryAfter);
+  }
+
+  const body = options.errorBody ? options.errorBody(error, status) : problem;
+
+  return { status, headers, body };
+}
+
+function guardRouteHandler<C>(
+  client: VulturIdentServerClient,
+  handler: (user: UserInfo, request: NextRequest, context: C) => Response | Promise<Response>,
+  options: RouteGuardOptions,
+  requirement?: PermissionRequirement
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const token = extractJWT(request, client.getTokenSources());
+    let user: UserInfo;
+    try {
+      user = await authorizeRequest(client, token, requirement);
+    } catch (error) {
+      const failure = toGuardFailure(error, token !== null, options);
+      return new NextResponse(JSON.stringify(failure.body), { status: failure.status, headers: failure.headers });
+    }
+    return handler(user, request, context);
+  };
+}
+
+function guardApiHandler(
+  client: VulturIdentServerClient,
+  handler: (user: UserInfo, req: NextApiRequest, res: NextApiResponse) => unknown,
+  options: RouteGuardOptions,
+  requirement?: PermissionRequirement
+) {
+  return async (req: NextApiRequest, res: NextApiResponse): Promise<void> => {
+    const token = extractJWT(req, client.getTokenSources());
+    let user: UserInfo;
+    try {
+      user = await authorizeRequest(client, token, requirement);
+    } catch (error) {
+      const failure = toGuardFailure(error, token !== null, options);
+      sendProblem(res, failure.status, failure.body, failure.headers);
+      return;
+    }
+    await handler(user, req, res);
+  };
+}
+
+/**
+ * App Router route handler that requires a valid JWT.
+ * Answers 401 (with WWW-Authenticate) instead of throwing.
+ *
+ * ```typescript
+ * export const GET = withAuthHandler(client, async (user, request, { params }) => {
+ *   return NextResponse.json({ user, id: params.id });
+ * });
+ * ```
+ */
+export function withAuthHandler<C = RouteContext>(
+  client: VulturIdentServerClient,
+  handler: (user: UserInfo, request: NextRequest, context: C) => Response | Promise<Response>,
+  options: RouteGuardOptions = {}
+) {
+  return guardRouteHandler(client, handler, options);
+}
+
+/**
+ * App Router route handler that requires a permission in an application.
+ * Answers 401 or 403 instead of throwing.
+ */
+export function withPermissionHandler<C = RouteContext, S extends string = string>(
+  client: VulturIdentServerClient,
+  applicationName: string,
+  requiredPermission: CheckedScopeId<S>,
+  handler: (user: UserInfo, request: NextRequest, context: C) => Response | Promise<Response>,
+  options: RouteGuardOptions & ServerPermissionCheckerOptions<S> = {}
+) {
+  const checker = new ServerPermissionChecker(client, applicationName, options);
+  return guardRouteHandler(client, handler, options, { checker, scope: requiredPermission });
+}
+
+/**
+ * Pages Router API handler that requires a valid JWT.
+ * Answers 401 (with WWW-Authenticate) instead of throwing.
+ *
+ * ```typescript
+ * export default withAuthApiHandler(client, async (user, req, res) => {
+ *   res.status(200).json({ user });
+ * });
+ * ```
+ */
+export function withAuthApiHandler(
+  client: VulturIdentServerClient,
+  handler: (user: UserInfo, req: NextApiRequest, res: NextApiResponse) => unknown,
+  options: RouteGuardOptions = {}
+) {
+  return guardApiHandler(client, handler, options);
+}
+
+/**
+ * Pages Router API handler that requires a permission in an application.
+ * Answers 401 or 403 instead of throwing.
+ */
+export function withPermissionApiHandler<S extends string = string>(
+  client: VulturIdentServerClient,
+  applicationName: string,
+  requiredPermission: CheckedScopeId<S>,
+  handler: (user: UserInfo, req: NextApiRequest, res: NextApiResponse) => unknown,
+  options: RouteGuardOptions & ServerPermissionCheckerOptions<S> = {}
+) {
+  const checker = new ServerPermissionChecker(client, applicationName, options);
+  return guardApiHandler(client, handler, options, { checker, scope: requiredPermission });
+}
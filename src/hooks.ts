@@ -5,18 +5,45 @@ import {
   UserRole, 
   UserPermissions, 
   Permission, 
-  UseVulturPermissionsOptions 
+  PermissionEffect,
+  UseVulturPermissionsOptions,
+  VulturSSOClientConfig,
 } from './types';
-import { VulturSSOError } from './server';
+import { VulturSSOError, createResponseError } from './errors';
+import { ValidationMode, readValidatedResponse, validateUserInfo, validateUserRoles } from './validation';
+import { createRequestSignal } from './resilience';
+import { TransportConfig, VulturFetch, createTransport } from './transport';
+import {
+  PermissionCheckOptions,
+  PermissionResolver,
+  ResourceIdGetter,
+  getResourceId,
+  hasPermissionEffect,
+} from './permissions';
+
+export { PermissionResolver, NoOpPermissionResolver } from './permissions';
 
 /**
  * API client for fetching user data from vultur-ident-api
  */
 class VulturIdentApiClient {
   private baseUrl: string;
+  private timeout: number;
+  private transport: VulturFetch;
+  private responseValidation: ValidationMode;
 
-  constructor(baseUrl: string) {
+  constructor(
+    baseUrl: string,
+    options: TransportConfig & {
+      timeout?: number;
+      applicationName?: string;
+      responseValidation?: ValidationMode;
+    } = {}
+  ) {
     this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.timeout = options.timeout ?? 10 * 1000;
+    this.responseValidation = options.responseValidation ?? 'strict';
+    this.transport = createTransport(options, { applicationName: options.applicationName });
   }
 
   private getAuthHeaders(): HeadersInit {
@@ -25,194 +52,265 @@ class VulturIdentApiClient {
     return token ? { Authorization: `Bearer ${token}` } : {};
   }
 
-  async getCurrentUser(): Promise<UserInfo> {
-    const response = await fetch(`${this.baseUrl}/me`, {
-      headers: {
-        'Content-Type': 'application/json',
-        ...this.getAuthHeaders(),
-      },
-    });
+  private async request(path: string, signal?: AbortSignal): Promise<Response> {
+    const requestSignal = createRequestSignal(signal, this.timeout);
+    try {
+      return await this.transport(`${this.baseUrl}${path}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.getAuthHeaders(),
+        },
+        signal: requestSignal.signal,
+      });
+    } catch (error) {
+      if (requestSignal.timedOut()) {
+        throw new VulturSSOError('TIMEOUT', `Request to vultur-ident-api timed out after ${this.timeout}ms`, error);
+      }
+      throw error;
+    } finally {
+      requestSignal.cleanup();
+    }
+  }
+
+  async getCurrentUser(signal?: AbortSignal): Promise<UserInfo> {
+    const response = await this.request('/me', signal);
 
     if (!response.ok) {
-      if (response.status === 401) {
-        throw new VulturSSOError('UNAUTHORIZED', 'Not authenticated');
-      }
-      throw new VulturSSOError('NETWORK_ERROR', `Get current user failed: ${response.status}`);
+      throw createResponseError(response, 'Get current user failed', { 401: 'Not authenticated' });
     }
 
-    return response.json();
+    return readValidatedResponse<UserInfo>(response, validateUserInfo, 'Get current user failed', this.responseValidation);
   }
 
-  async getUserRoles(address: string): Promise<UserRole[]> {
-    const response = await fetch(`${this.baseUrl}/users/${encodeURIComponent(address)}/roles`, {
-      headers: {
-        'Content-Type': 'application/json',
-        ...this.getAuthHeaders(),
-      },
-    });
+  async getUserRoles(address: string, signal?: AbortSignal): Promise<UserRole[]> {
+    const response = await this.request(`/users/${encodeURIComponent(address)}/roles`, signal);
 
     if (!response.ok) {
-      if (response.status === 401) {
-        throw new VulturSSOError('UNAUTHORIZED', 'Not authenticated');
-      }
-      if (response.status === 404) {
-        throw new VulturSSOError('NOT_FOUND', 'User not found');
-      }
-      throw new VulturSSOError('NETWORK_ERROR', `Get user roles failed: ${response.status}`);
+      throw createResponseError(response, 'Get user roles failed', {
+        401: 'Not authenticated',
+        404: 'User not found',
+      });
     }
 
-    return response.json();
+    return readValidatedResponse<UserRole[]>(response, validateUserRoles, 'Get user roles failed', this.responseValidation);
   }
 }
 
 /**
- * Permission resolver that combines user roles with application permissions
+ * Where a set of hooks reads its configuration
  */
-export abstract class PermissionResolver {
-
-  constructor(private applicationName: string) {
-  }
-
-  abstract resolveUserPermissions(
-    user: UserInfo,
-    roles: UserRole[],
-  ): Permission[];
-}
+export type VulturHooksSource = {
+  /** Return the client configuration; called each time permissions are fetched */
+  getConfig: () => VulturSSOClientConfig;
+  /** React Query key for the permissions query; must differ between instances sharing a QueryClient */
+  queryKey: readonly unknown[];
+};
 
 /**
- * Permission resolver that does nothing
+ * Create the React hooks bound to a configuration source.
+ * Used by createVulturSSO instances; the exported hooks read the global configuration.
  */
-export class NoOpPermissionResolver extends PermissionResolver {
-  resolveUserPermissions(
-    user: UserInfo,
-    roles: UserRole[],
-  ): Permission[] {
-    console.warn('NoOpPermissionResolver is being used, configure with a custom resolver for this application');
-    return [];
-  }
-}
+export function createVulturHooks(source: VulturHooksSource) {
+  function useVulturPermissions(
+    options: UseVulturPermissionsOptions 
+  ): UseQueryResult<UserPermissions, VulturSSOError> {
+    const {
+      enabled = true,
+      apiUrl,
+      refetchOnWindowFocus = false,
+      refetchInterval,
+      resolver,
+    } = options;
 
+    if (!resolver) {
+      throw new Error('No permission resolver provided');
+    }
 
-/**
- * React hook for fetching user permissions for the current application
- */
-export function useVulturPermissions(
-  options: UseVulturPermissionsOptions 
-): UseQueryResult<UserPermissions, VulturSSOError> {
-  const {
-    enabled = true,
-    apiUrl,
-    refetchOnWindowFocus = false,
-    refetchInterval,
-    resolver,
-  } = options;
-
-  if (!resolver) {
-    throw new Error('No permission resolver provided');
-  }
+    return useQuery({
+      queryKey: source.queryKey,
+      queryFn: async ({ signal }): Promise<UserPermissions> => {
+        try {
+          const config = source.getConfig();
+          const baseUrl = apiUrl || config.identApiUrl;
+          const client = new VulturIdentApiClient(baseUrl, {
+            timeout: config.requestTimeout,
+            applicationName: config.applicationName,
+            fetch: config.fetch,
+            onRequest: config.onRequest,
+            onResponse: config.onResponse,
+            responseValidation: config.responseValidation,
+          });
+
+          // Fetch current user and their roles; React Query aborts the signal on unmount
+          const user = await client.getCurrentUser(signal);
+          const roles = await client.getUserRoles(user.eth_address, signal);
+
+          // Resolve permissions for this application
+          const permissions = resolver.resolveUserPermissions(
+            user,
+            roles
+          );
 
-  return useQuery({
-    queryKey: ['vultur-permissions'],
-    queryFn: async (): Promise<UserPermissions> => {
-      try {
-        const config = getVulturSSOConfig();
-        const baseUrl = apiUrl || config.identApiUrl;
-        const client = new VulturIdentApiClient(baseUrl);
-
-        // Fetch current user and their roles
-        const user = await client.getCurrentUser();
-        const roles = await client.getUserRoles(user.eth_address);
-
-        // Resolve permissions for this application
-        const permissions = resolver.resolveUserPermissions(
-          user,
-          roles
-        );
-
-        return {
-          user,
-          roles,
-          permissions,
-          isAdmin: user.is_admin,
-          fetchedAt: new Date().toISOString(),
-        };
-      } catch (error) {
-        if (error instanceof VulturSSOError) {
-          throw error;
+          return {
+            user,
+            roles,
+            permissions,
+            isAdmin: user.is_admin,
+            fetchedAt: new Date().toISOString(),
+          };
+        } catch (error) {
+          if (error instanceof VulturSSOError || signal?.aborted) {
+            throw error;
+          }
+          throw new VulturSSOError(
+            'NETWORK_ERROR',
+            'Failed to fetch user permissions',
+            error
+          );
         }
-        throw new VulturSSOError(
-          'NETWORK_ERROR',
-          'Failed to fetch user permissions',
-          error
-        );
-      }
-    },
-    enabled,
-    refetchOnWindowFocus,
-    refetchInterval,
-    staleTime: 5 * 60 * 1000, // 5 minutes
-    retry: (failureCount, error) => {
-      // Don't retry on auth errors
-      if (error instanceof VulturSSOError && error.code === 'UNAUTHORIZED') {
-        return false;
-      }
-      return failureCount < 3;
-    },
-  });
-}
+      },
+      enabled,
+      refetchOnWindowFocus,
+      refetchInterval,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      retry: (failureCount, error) => {
+        // Don't retry auth errors or anything else that would fail the same way again
+        if (error instanceof VulturSSOError && !error.retryable) {
+          return false;
+        }
+        return failureCount < 3;
+      },
+      retryDelay: (failureCount, error) => {
+        const maxDelay = 30 * 1000;
+        if (error instanceof VulturSSOError && error.retryAfter !== undefined) {
+          return Math.min(error.retryAfter * 1000, maxDelay);
+        }
+        return Math.min(1000 * 2 ** failureCount, maxDelay);
+      },
+    });
+  }
 
-/**
- * Hook that returns permission checking functions
- */
-export function usePermissionCheck(
-  resolver: PermissionResolver
-) {
-  const { data: userPermissions } = useVulturPermissions({ resolver });
-
-  const hasPermission = (scopeId: string, requiredEffect: 'allow' | 'deny' = 'allow'): boolean => {
-    if (!userPermissions) return false;
-    
-    const permission = userPermissions.permissions.find(p => p.scope.id === scopeId);
-    return permission?.effect === requiredEffect;
-  };
+  function usePermissionCheck<S extends string = string>(
+    resolver: PermissionResolver<S>
+  ) {
+    const { data: userPermissions } = useVulturPermissions({ resolver });
 
-  const hasAnyPermission = (scopeIds: string[], requiredEffect: 'allow' | 'deny' = 'allow'): boolean => {
-    return scopeIds.some(scopeId => hasPermission(scopeId, requiredEffect));
-  };
+    const checkArgs = (
+      optionsOrEffect: PermissionCheckOptions | PermissionEffect | undefined,
+      requiredEffect: PermissionEffect
+    ): [PermissionCheckOptions, PermissionEffect] =>
+      typeof optionsOrEffect === 'string' ? [{}, optionsOrEffect] : [optionsOrEffect ?? {}, requiredEffect];
 
-  const hasAllPermissions = (scopeIds: string[], requiredEffect: 'allow' | 'deny' = 'allow'): boolean => {
-    return scopeIds.every(scopeId => hasPermission(scopeId, requiredEffect));
-  };
+    function hasPermission(scopeId: S, requiredEffect?: PermissionEffect): boolean;
+    function hasPermission(scopeId: S, options: PermissionCheckOptions, requiredEffect?: PermissionEffect): boolean;
+    function hasPermission(
+      scopeId: S,
+      optionsOrEffect?: PermissionCheckOptions | PermissionEffect,
+      requiredEffect: PermissionEffect = 'allow'
+    ): boolean {
+      if (!userPermissions) return false;
+      const [options, effect] = checkArgs(optionsOrEffect, requiredEffect);
+      return hasPermissionEffect(
+        userPermissions.permissions,
+        scopeId,
+        effect,
+        resolver.combiningAlgorithm,
+        resolver.implications,
+        { user: userPermissions.user, resource: options.resource, resourceId: options.resourceId }
+      );
+    }
 
-  const hasRole = (roleName: string): boolean => {
-    if (!userPermissions) return false;
-    return userPermissions.user.roles.includes(roleName);
-  };
+    const filterPermitted = <T extends object>(
+      scopeId: S,
+      resources: T[],
+      resourceId: ResourceIdGetter<T> = getResourceId
+    ): T[] => {
+      return resources.filter(resource =>
+        hasPermission(scopeId, {
+          resource: resource as Record<string, unknown>,
+          resourceId: resourceId(resource) ?? undefined,
+        })
+      );
+    };
 
-  const isAdmin = (): boolean => {
-    return userPermissions?.isAdmin ?? false;
-  };
+    function hasAnyPermission(scopeIds: S[], requiredEffect?: PermissionEffect): boolean;
+    function hasAnyPermission(scopeIds: S[], options: PermissionCheckOptions, requiredEffect?: PermissionEffect): boolean;
+    function hasAnyPermission(
+      scopeIds: S[],
+      optionsOrEffect?: PermissionCheckOptions | PermissionEffect,
+      requiredEffect: PermissionEffect = 'allow'
+    ): boolean {
+      const [options, effect] = checkArgs(optionsOrEffect, requiredEffect);
+      return scopeIds.some(scopeId => hasPermission(scopeId, options, effect));
+    }
+
+    function hasAllPermissions(scopeIds: S[], requiredEffect?: PermissionEffect): boolean;
+    function hasAllPermissions(scopeIds: S[], options: PermissionCheckOptions, requiredEffect?: PermissionEffect): boolean;
+    function hasAllPermissions(
+      scopeIds: S[],
+      optionsOrEffect?: PermissionCheckOptions | PermissionEffect,
+      requiredEffect: PermissionEffect = 'allow'
+    ): boolean {
+      const [options, effect] = checkArgs(optionsOrEffect, requiredEffect);
+      return scopeIds.every(scopeId => hasPermission(scopeId, options, effect));
+    }
+
+    const hasRole = (roleName: string): boolean => {
+      if (!userPermissions) return false;
+      return userPermissions.user.roles.includes(roleName);
+    };
+
+    const isAdmin = (): boolean => {
+      return userPermissions?.isAdmin ?? false;
+    };
+
+    return {
+      hasPermission,
+      hasAnyPermission,
+      hasAllPermissions,
+      filterPermitted,
+      hasRole,
+      isAdmin,
+      userPermissions,
+    };
+  }
+
+  function useVulturAuth(options: UseVulturPermissionsOptions) {
+    const { data: userPermissions, isLoading, error } = useVulturPermissions(options);
+
+    return {
+      isAuthenticated: !!userPermissions,
+      user: userPermissions?.user,
+      isLoading,
+      error,
+    };
+  }
 
   return {
-    hasPermission,
-    hasAnyPermission,
-    hasAllPermissions,
-    hasRole,
-    isAdmin,
-    userPermissions,
+    useVulturPermissions,
+    usePermissionCheck,
+    useVulturAuth,
   };
 }
 
+const defaultHooks = createVulturHooks({
+  getConfig: () => getVulturSSOConfig(),
+  queryKey: ['vultur-permissions'],
+});
+
 /**
- * Hook for checking if the current user is authenticated
+ * React hook for fetching user permissions for the current application
  */
-export function useVulturAuth(options: UseVulturPermissionsOptions) {
-  const { data: userPermissions, isLoading, error } = useVulturPermissions(options);
+export const useVulturPermissions = defaultHooks.useVulturPermissions;
 
-  return {
-    isAuthenticated: !!userPermissions,
-    user: userPermissions?.user,
-    isLoading,
-    error,
-  };
-}
+/**
+ * Hook that returns permission checking functions.
+ * Scope ids are typed by the resolver, e.g. a RoleMappingPermissionResolver
+ * built from a VulturPermissionConfigBuilder config only accepts its scopes.
+ */
+export const usePermissionCheck = defaultHooks.usePermissionCheck;
+
+/**
+ * Hook for checking if the current user is authenticated
+ */
+export const useVulturAuth = defaultHooks.useVulturAuth;
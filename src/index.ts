@@ -11,6 +11,7 @@ export type {
   PermissionEffect,
   Permission,
   VulturPermissionConfig,
+  ScopeIdOf,
   UserRole,
   UserInfo,
   UserPermissions,
@@ -28,6 +29,33 @@ export {
   PermissionPatterns,
 } from './config';
 
+export type {
+  PermissionScopeDefinition,
+} from './config';
+
+// Isolated instances
+export {
+  createVulturSSO,
+} from './instance';
+
+export type {
+  CreateVulturSSOOptions,
+  VulturSSOInstance,
+} from './instance';
+
+// Config files and environment
+export {
+  loadVulturConfig,
+  VULTUR_CONFIG_FILES,
+} from './loader';
+
+export type {
+  LoadVulturConfigOptions,
+  VulturConfigFile,
+  VulturConfigFileSettings,
+  VulturConfigFileDefaultPermission,
+} from './loader';
+
 // Next.js endpoint handlers
 export {
   createVulturPermissionsHandler,
@@ -36,16 +64,69 @@ export {
   createStaticVulturPermissionsApiHandler,
   validateWellKnownPath,
   getWellKnownUrl,
+  getPermissionConfigValidators,
+} from './endpoint';
+
+export type {
+  PermissionConfigValidators,
+  VulturPermissionsHandlerOptions,
+  PermissionsCachePolicy,
 } from './endpoint';
 
+// Signed permission documents
+export {
+  signPermissionConfig,
+  createPermissionConfigSigner,
+  verifySignedPermissionConfig,
+  PERMISSION_SIGNATURE_HEADER,
+} from './signing';
+
+export type {
+  PermissionConfigSigningOptions,
+  SignedPermissionConfigVerificationOptions,
+} from './signing';
+
 // React hooks
 export {
   useVulturPermissions,
   usePermissionCheck,
   useVulturAuth,
+} from './hooks';
+
+// Permission resolution
+export {
   PermissionResolver,
   NoOpPermissionResolver,
-} from './hooks';
+  RoleMappingPermissionResolver,
+  hasPermissionEffect,
+  evaluatePermissions,
+  scopeMatches,
+  buildImplicationGraph,
+  getResourceId,
+} from './permissions';
+
+export type {
+  CombiningAlgorithm,
+  ImplicationGraph,
+  PermissionCheckOptions,
+  PermissionEvaluationContext,
+  PermissionResolverOptions,
+  ResourceIdGetter,
+  RoleMappingPermissionResolverOptions,
+  RoleScopeGrant,
+} from './permissions';
+
+// Permission conditions
+export {
+  evaluateCondition,
+  parseCondition,
+  conditionsHold,
+} from './conditions';
+
+export type {
+  ConditionContext,
+  ConditionOperator,
+} from './conditions';
 
 // Server-side utilities
 export {
@@ -56,12 +137,140 @@ export {
   withAuth,
   withPermission,
   createServerClient,
-  VulturSSOError,
 } from './server';
 
 export type {
   ServerConfig,
+  ServerPermissionCheckerOptions,
+  RequestOptions,
 } from './server';
 
+// Token extraction
+export { DEFAULT_TOKEN_SOURCES } from './token';
+
+export type { TokenSource } from './token';
+
+// Next.js route guards
+export {
+  withAuthHandler,
+  withPermissionHandler,
+  withAuthApiHandler,
+  withPermissionApiHandler,
+} from './guards';
+
+export type {
+  RouteGuardOptions,
+  RouteContext,
+} from './guards';
+
+// Errors
+export {
+  VulturSSOError,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+  createResponseError,
+  getErrorStatus,
+} from './errors';
+
+export type {
+  VulturSSOErrorCode,
+  VulturSSOErrorOptions,
+} from './errors';
+
+// Response validation
+export {
+  isUserInfo,
+  isUserRole,
+  isPermissionScope,
+  isPermission,
+  isVulturPermissionConfig,
+  validateUserInfo,
+  validateUserRoles,
+  validateVulturPermissionConfig,
+  validatePermissionConfig,
+  assertValidPermissionConfig,
+} from './validation';
+
+export type {
+  ValidationMode,
+  ValidationIssue,
+  PermissionConfigIssue,
+  PermissionConfigIssueCode,
+  PermissionConfigValidationResult,
+  PermissionConfigValidationOptions,
+} from './validation';
+
+// Edge middleware
+export { createVulturEdgeMiddleware, compileRoutePattern } from './middleware';
+
+export type {
+  RouteRequirement,
+  RoutePermissionMap,
+  VulturEdgeMiddlewareOptions,
+} from './middleware';
+
+// Problem details (RFC 7807)
+export {
+  toProblemResponse,
+  toProblemDetails,
+  createProblem,
+  getProblemType,
+  isProblemDetails,
+  fromProblemDetails,
+  PROBLEM_CONTENT_TYPE,
+} from './problem';
+
+export type { ProblemDetails } from './problem';
+
+// Transport
+export { createTransport, CLIENT_IDENTIFIER } from './transport';
+export { VERSION } from './version';
+
+export type {
+  VulturFetch,
+  VulturRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  TransportConfig,
+} from './transport';
+
+// Resilience
+export { CircuitBreaker, computeBackoffDelay } from './resilience';
+
+export type {
+  RetryConfig,
+  CircuitBreakerConfig,
+  CircuitState,
+} from './resilience';
+
+// Local JWT verification
+export {
+  JwtVerifier,
+  decodeJwt,
+  mapJwtClaimsToUserInfo,
+} from './jwt';
+
+export type {
+  JwtClaims,
+  JwksDocument,
+  JwtVerificationConfig,
+} from './jwt';
+
+// Caching
+export {
+  LRUCache,
+  InMemoryCacheStore,
+  RedisCacheStore,
+  namespaceCacheStore,
+} from './cache';
+
+export type {
+  CacheStats,
+  LRUCacheOptions,
+  VulturCacheStore,
+  RedisCommandClient,
+} from './cache';
+
 // Re-export for convenience
 export { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
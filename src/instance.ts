@@ -0,0 +1,99 @@
+/**
+ * Isolated VULTUR SSO Client instances
+ * Each instance owns its configuration, so several applications (or test suites)
+ * can share a process without going through the global initializeVulturSSO state
+ */
+
+import { VulturPermissionConfig, VulturSSOClientConfig } from './types';
+import { resolveVulturSSOConfig } from './config';
+import { createVulturHooks } from './hooks';
+import {
+  VulturPermissionsHandlerOptions,
+  createStaticVulturPermissionsApiHandler,
+  createStaticVulturPermissionsHandler,
+} from './endpoint';
+import { ServerConfig, VulturIdentServerClient } from './server';
+
+/**
+ * Options for createVulturSSO
+ */
+export type CreateVulturSSOOptions = {
+  /** Optional: server client settings not covered by the client config, e.g. jwtVerification or cacheStore */
+  server?: Omit<ServerConfig, 'identApiUrl' | 'applicationName'>;
+};
+
+/**
+ * An isolated VULTUR SSO Client, see createVulturSSO
+ */
+export type VulturSSOInstance = ReturnType<typeof createVulturHooks> & {
+  /** The validated configuration, with defaults filled in */
+  readonly config: VulturSSOClientConfig;
+  /** Permission configuration served from .well-known/vultur-permissions */
+  getPermissionConfig(): VulturPermissionConfig;
+  /** App Router handler serving this instance's permission configuration */
+  createPermissionsHandler(options?: VulturPermissionsHandlerOptions): ReturnType<typeof createStaticVulturPermissionsHandler>;
+  /** Pages Router handler serving this instance's permission configuration */
+  createPermissionsApiHandler(options?: VulturPermissionsHandlerOptions): ReturnType<typeof createStaticVulturPermissionsApiHandler>;
+  /** Server client for vultur-ident-api, created on first use */
+  readonly serverClient: VulturIdentServerClient;
+};
+
+/**
+ * Server client settings derived from the client config
+ */
+function toServerConfig(config: VulturSSOClientConfig, options: CreateVulturSSOOptions): ServerConfig {
+  return {
+    cacheTTL: config.enableCache === false ? 0 : config.cacheDuration,
+    timeout: config.requestTimeout,
+    fetch: config.fetch,
+    onRequest: config.onRequest,
+    onResponse: config.onResponse,
+    responseValidation: config.responseValidation,
+    ...options.server,
+    identApiUrl: config.identApiUrl,
+    applicationName: config.applicationName,
+  };
+}
+
+/**
+ * Create an isolated VULTUR SSO Client. The configuration is validated like
+ * initializeVulturSSO, but nothing is stored globally.
+ *
+ * ```typescript
+ * export const sso = createVulturSSO({ identApiUrl, applicationName: 'fleet-manager', permissionConfig });
+ *
+ * // app/.well-known/vultur-permissions/route.ts
+ * export const GET = sso.createPermissionsHandler();
+ *
+ * // components
+ * const { hasPermission } = sso.usePermissionCheck(resolver);
+ *
+ * // API routes
+ * const user = await sso.serverClient.validateToken(token);
+ * ```
+ */
+export function createVulturSSO(config: VulturSSOClientConfig, options: CreateVulturSSOOptions = {}): VulturSSOInstance {
+  const resolved = resolveVulturSSOConfig(config);
+  const hooks = createVulturHooks({
+    getConfig: () => resolved,
+    // Instances sharing a QueryClient keep separate permission queries
+    queryKey: ['vultur-permissions', resolved.applicationName, resolved.identApiUrl],
+  });
+  let serverClient: VulturIdentServerClient | null = null;
+
+  return {
+    ...hooks,
+    config: resolved,
+    getPermissionConfig: () => resolved.permissionConfig,
+    createPermissionsHandler: handlerOptions =>
+      createStaticVulturPermissionsHandler(resolved.permissionConfig, handlerOptions),
+    createPermissionsApiHandler: handlerOptions =>
+      createStaticVulturPermissionsApiHandler(resolved.permissionConfig, handlerOptions),
+    get serverClient() {
+      if (!serverClient) {
+        serverClient = new VulturIdentServerClient(toServerConfig(resolved, options));
+      }
+      return serverClient;
+    },
+  };
+}
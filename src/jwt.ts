@@ -0,0 +1,373 @@
+/**
+ * Local JWT verification for vultur-sso-client
+ * Verifies token signatures against a JWKS document so token validation
+ * does not require a round-trip to vultur-ident-api
+ */
+
+import { UserInfo } from './types';
+import { VulturSSOError } from './errors';
+import { VulturFetch } from './transport';
+import { abortable, createRequestSignal } from './resilience';
+
+/**
+ * Standard and VULTUR-specific JWT claims
+ */
+export type JwtClaims = {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+};
+
+/**
+ * JSON Web Key Set document
+ */
+export type JwksDocument = {
+  keys: JsonWebKey[];
+};
+
+/**
+ * Configuration for local JWT verification
+ */
+export type JwtVerificationConfig = {
+  /** URL of the JWKS document (default: `${identApiUrl}/.well-known/jwks.json`) */
+  jwksUrl?: string;
+  /** Static JWKS document; when set the JWKS is never fetched */
+  jwks?: JwksDocument;
+  /** Expected `iss` claim */
+  issuer?: string | string[];
+  /** Expected `aud` claim; the token must contain at least one of these */
+  audience?: string | string[];
+  /** Allowed signing algorithms (default: RS256, RS384, RS512, PS256, PS384, PS512, ES256, ES384, ES512) */
+  algorithms?: string[];
+  /** Tolerated clock skew in seconds for `exp`/`nbf` (default: 30) */
+  clockSkewSeconds?: number;
+  /** How long a fetched JWKS is trusted before it is refreshed, in milliseconds (default: 10 minutes) */
+  jwksCacheTTL?: number;
+  /** Minimum time between JWKS refetches triggered by an unknown `kid`, in milliseconds (default: 30 seconds) */
+  jwksRefreshCooldown?: number;
+  /** Fall back to `GET /me` for tokens that cannot be verified locally (default: true) */
+  fallbackToRemote?: boolean;
+  /** Map verified claims into UserInfo (default: mapJwtClaimsToUserInfo) */
+  mapClaims?: (claims: JwtClaims) => UserInfo;
+};
+
+type DecodedJwt = {
+  header: { alg?: string; kid?: string; typ?: string };
+  claims: JwtClaims;
+  signingInput: Uint8Array;
+  signature: Uint8Array;
+};
+
+/**
+ * Web Crypto parameters for a JWS algorithm
+ */
+export type AlgorithmParams = {
+  importParams: RsaHashedImportParams | EcKeyImportParams;
+  signatureParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+  kty: string;
+};
+
+export const DEFAULT_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * Web Crypto parameters for a JWS algorithm, or null when it is not supported.
+ * The signature parameters are used for both signing and verifying.
+ */
+export function getAlgorithmParams(alg: string): AlgorithmParams | null {
+  const bits = alg.slice(2);
+  const hash = `SHA-${bits}`;
+
+  switch (alg) {
+    case 'RS256':
+    case 'RS384':
+    case 'RS512':
+      return {
+        importParams: { name: 'RSASSA-PKCS1-v1_5', hash },
+        signatureParams: { name: 'RSASSA-PKCS1-v1_5' },
+        kty: 'RSA',
+      };
+    case 'PS256':
+    case 'PS384':
+    case 'PS512':
+      return {
+        importParams: { name: 'RSA-PSS', hash },
+        signatureParams: { name: 'RSA-PSS', saltLength: Number(bits) / 8 },
+        kty: 'RSA',
+      };
+    case 'ES256':
+    case 'ES384':
+    case 'ES512':
+      return {
+        importParams: { name: 'ECDSA', namedCurve: bits === '512' ? 'P-521' : `P-${bits}` },
+        signatureParams: { name: 'ECDSA', hash },
+        kty: 'EC',
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode a base64url string into bytes
+ */
+export function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as a base64url string
+ */
+export function base64UrlEncode(input: Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Pick the verification key for a JWS from a key set: the key named by `kid`,
+ * or without a `kid` the only key usable with the algorithm
+ */
+export function selectKey(keys: JsonWebKey[], kid: string | undefined, alg: string, kty: string): JsonWebKey | null {
+  const candidates = keys.filter(key =>
+    key.kty === kty &&
+    (!key.alg || key.alg === alg) &&
+    (!key.use || key.use === 'sig')
+  );
+
+  if (kid) {
+    return candidates.find(key => (key as JsonWebKey & { kid?: string }).kid === kid) ?? null;
+  }
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Decode a compact JWT without verifying it
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new VulturSSOError('UNAUTHORIZED', 'Malformed token');
+  }
+
+  try {
+    const decoder = new TextDecoder();
+    return {
+      header: JSON.parse(decoder.decode(base64UrlDecode(parts[0]))),
+      claims: JSON.parse(decoder.decode(base64UrlDecode(parts[1]))),
+      signingInput: new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+      signature: base64UrlDecode(parts[2]),
+    };
+  } catch (error) {
+    throw new VulturSSOError('UNAUTHORIZED', 'Malformed token', error);
+  }
+}
+
+/**
+ * Default mapping of VULTUR token claims into UserInfo
+ */
+export function mapJwtClaimsToUserInfo(claims: JwtClaims): UserInfo {
+  const ethAddress = claims.eth_address ?? claims.sub;
+  if (typeof ethAddress !== 'string' || !ethAddress) {
+    throw new VulturSSOError('UNAUTHORIZED', 'Token does not identify a user');
+  }
+
+  return {
+    eth_address: ethAddress,
+    character_name: typeof claims.character_name === 'string'
+      ? claims.character_name
+      : typeof claims.name === 'string' ? claims.name : '',
+    roles: Array.isArray(claims.roles) ? claims.roles.filter((role): role is string => typeof role === 'string') : [],
+    is_admin: claims.is_admin === true,
+    tribe_id: typeof claims.tribe_id === 'number' ? claims.tribe_id : null,
+  };
+}
+
+/**
+ * Verifies JWT signatures and claims against a JWKS document
+ */
+export class JwtVerifier {
+  private jwksUrl: string;
+  private staticJwks?: JwksDocument;
+  private algorithms: string[];
+  private clockSkewSeconds: number;
+  private jwksCacheTTL: number;
+  private jwksRefreshCooldown: number;
+  private keys: JsonWebKey[] = [];
+  private importedKeys = new Map<string, Promise<CryptoKey>>();
+  private lastFetchAt = 0;
+  private nextRefreshAt = 0;
+  private pendingFetch: Promise<void> | null = null;
+
+  constructor(
+    private config: JwtVerificationConfig,
+    identApiUrl: string,
+    private fetchImpl: VulturFetch = (input, init) => fetch(input, init),
+    private timeout: number = 0
+  ) {
+    this.jwksUrl = config.jwksUrl ?? `${identApiUrl.replace(/\/$/, '')}/.well-known/jwks.json`;
+    this.staticJwks = config.jwks;
+    this.algorithms = config.algorithms ?? DEFAULT_ALGORITHMS;
+    this.clockSkewSeconds = config.clockSkewSeconds ?? 30;
+    this.jwksCacheTTL = config.jwksCacheTTL ?? 10 * 60 * 1000;
+    this.jwksRefreshCooldown = config.jwksRefreshCooldown ?? 30 * 1000;
+
+    if (this.staticJwks) {
+      this.keys = this.staticJwks.keys;
+    }
+  }
+
+  /**
+   * Verify a token and return its claims.
+   * Returns null when the token cannot be verified locally (unsupported
+   * algorithm, unknown key, JWKS unavailable). Throws UNAUTHORIZED when the
+   * token is verifiably invalid. Aborting `signal` stops waiting for a JWKS
+   * fetch; the fetch itself is shared and bounded by the verifier's timeout.
+   */
+  async verify(token: string, options: { signal?: AbortSignal } = {}): Promise<JwtClaims | null> {
+    let decoded: DecodedJwt;
+    try {
+      decoded = decodeJwt(token);
+    } catch (error) {
+      // Not a JWT we can read (e.g. an opaque token)
+      return null;
+    }
+    const { alg, kid } = decoded.header;
+
+    if (!alg || !this.algorithms.includes(alg)) {
+      return null;
+    }
+    const params = getAlgorithmParams(alg);
+    if (!params) {
+      return null;
+    }
+
+    const jwk = await this.findKey(kid, alg, params.kty, options.signal);
+    if (!jwk) {
+      return null;
+    }
+
+    const key = await this.importKey(jwk, alg, params).catch(() => null);
+    if (!key) {
+      return null;
+    }
+
+    const valid = await globalThis.crypto.subtle.verify(
+      params.signatureParams,
+      key,
+      decoded.signature as BufferSource,
+      decoded.signingInput as BufferSource
+    );
+    if (!valid) {
+      throw new VulturSSOError('UNAUTHORIZED', 'Invalid token signature');
+    }
+
+    this.validateClaims(decoded.claims);
+    return decoded.claims;
+  }
+
+  /**
+   * Map verified claims into UserInfo using the configured mapper
+   */
+  toUserInfo(claims: JwtClaims): UserInfo {
+    return (this.config.mapClaims ?? mapJwtClaimsToUserInfo)(claims);
+  }
+
+  private validateClaims(claims: JwtClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.exp === 'number' && now - this.clockSkewSeconds >= claims.exp) {
+      throw new VulturSSOError('TOKEN_EXPIRED', 'Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && now + this.clockSkewSeconds < claims.nbf) {
+      throw new VulturSSOError('UNAUTHORIZED', 'Token is not yet valid');
+    }
+
+    if (this.config.issuer) {
+      const issuers = Array.isArray(this.config.issuer) ? this.config.issuer : [this.config.issuer];
+      if (!claims.iss || !issuers.includes(claims.iss)) {
+        throw new VulturSSOError('UNAUTHORIZED', 'Token issuer is not trusted');
+      }
+    }
+
+    if (this.config.audience) {
+      const expected = Array.isArray(this.config.audience) ? this.config.audience : [this.config.audience];
+      const actual = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+      if (!actual.some(aud => expected.includes(aud))) {
+        throw new VulturSSOError('UNAUTHORIZED', 'Token audience is not accepted');
+      }
+    }
+  }
+
+  private async findKey(kid: string | undefined, alg: string, kty: string, signal?: AbortSignal): Promise<JsonWebKey | null> {
+    if (!this.staticJwks && Date.now() >= this.nextRefreshAt) {
+      await this.refreshKeys(signal);
+    }
+
+    let jwk = selectKey(this.keys, kid, alg, kty);
+
+    // Unknown kid usually means the signing key was rotated
+    if (!jwk && !this.staticJwks && Date.now() - this.lastFetchAt >= this.jwksRefreshCooldown) {
+      await this.refreshKeys(signal);
+      jwk = selectKey(this.keys, kid, alg, kty);
+    }
+
+    return jwk;
+  }
+
+  private async refreshKeys(signal?: AbortSignal): Promise<void> {
+    if (!this.pendingFetch) {
+      this.pendingFetch = (async () => {
+        // On failure keep the previous keys and retry once the cooldown has passed
+        let nextRefreshIn = this.jwksRefreshCooldown;
+        const requestSignal = createRequestSignal(undefined, this.timeout);
+        try {
+          const response = await this.fetchImpl(this.jwksUrl, {
+            headers: { 'Accept': 'application/json' },
+            signal: requestSignal.signal,
+          });
+          if (response.ok) {
+            const jwks: JwksDocument = await response.json();
+            if (Array.isArray(jwks.keys)) {
+              this.keys = jwks.keys;
+              this.importedKeys.clear();
+              nextRefreshIn = this.jwksCacheTTL;
+            }
+          }
+        } catch (error) {
+          // Unverifiable tokens fall back to /me or fail in the caller
+        } finally {
+          requestSignal.cleanup();
+          this.lastFetchAt = Date.now();
+          this.nextRefreshAt = this.lastFetchAt + nextRefreshIn;
+          this.pendingFetch = null;
+        }
+      })();
+    }
+    await abortable(this.pendingFetch, signal);
+  }
+
+  private importKey(jwk: JsonWebKey, alg: string, params: AlgorithmParams): Promise<CryptoKey> {
+    const cacheKey = `${(jwk as JsonWebKey & { kid?: string }).kid ?? jwk.n ?? jwk.x}:${alg}`;
+    let key = this.importedKeys.get(cacheKey);
+    if (!key) {
+      key = globalThis.crypto.subtle.importKey('jwk', jwk, params.importParams, false, ['verify']);
+      key.catch(() => this.importedKeys.delete(cacheKey));
+      this.importedKeys.set(cacheKey, key);
+    }
+    return key;
+  }
+}
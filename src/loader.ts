@@ -0,0 +1,350 @@
+/**
+ * Load VulturSSOClientConfig from vultur.config.json/.yaml files and VULTUR_* environment variables
+ * Lets operators change settings and default permissions without rebuilding the application
+ */
+
+import { Permission, PermissionEffect, PermissionScope, VulturPermissionConfig, VulturSSOClientConfig } from './types';
+import { VulturSSOError } from './errors';
+import { PermissionConfigValidationOptions, assertValidPermissionConfig } from './validation';
+
+/**
+ * File names searched when no path is given, in order
+ */
+export const VULTUR_CONFIG_FILES = ['vultur.config.json', 'vultur.config.yaml', 'vultur.config.yml'];
+
+/**
+ * Default permission as written in a config file; the scope may be given by id
+ */
+export type VulturConfigFileDefaultPermission = {
+  scope: string | PermissionScope;
+  effect: PermissionEffect;
+};
+
+/**
+ * Settings that can be set in a config file, an environment overlay or VULTUR_* variables
+ */
+export type VulturConfigFileSettings = {
+  identApiUrl?: string;
+  applicationName?: string;
+  enableCache?: boolean;
+  cacheDuration?: number;
+  requestTimeout?: number;
+  responseValidation?: VulturSSOClientConfig['responseValidation'];
+  permissionConfig?: Partial<Omit<VulturPermissionConfig, 'defaultPermissions'>> & {
+    defaultPermissions?: VulturConfigFileDefaultPermission[];
+  };
+};
+
+/**
+ * Contents of vultur.config.json / vultur.config.yaml
+ */
+export type VulturConfigFile = VulturConfigFileSettings & {
+  /** Overlays merged over the base settings, keyed by environment name (e.g. development, staging, production) */
+  environments?: Record<string, VulturConfigFileSettings>;
+};
+
+/**
+ * Options for loadVulturConfig
+ */
+export type LoadVulturConfigOptions = {
+  /** Optional: config file to read (default: the first of VULTUR_CONFIG_FILES found in `cwd`, if any) */
+  path?: string;
+  /** Optional: directory searched for the default file names (default: process.cwd()) */
+  cwd?: string;
+  /** Optional: environment overlay to apply (default: VULTUR_ENV, then NODE_ENV, then 'development') */
+  environment?: string;
+  /** Optional: variables read for VULTUR_* overrides (default: process.env) */
+  env?: Record<string, string | undefined>;
+  /** Optional: settings defined in code, e.g. a built permission config or fetch; the file and environment override them */
+  defaults?: Partial<VulturSSOClientConfig>;
+  /** Optional: how permission config warnings are treated (default: logged) */
+  permissionConfigValidation?: PermissionConfigValidationOptions;
+};
+
+type SettingType = 'string' | 'number' | 'boolean';
+
+const SETTINGS: Record<Exclude<keyof VulturConfigFileSettings, 'permissionConfig'>, { env: string; type: SettingType }> = {
+  identApiUrl: { env: 'VULTUR_IDENT_API_URL', type: 'string' },
+  applicationName: { env: 'VULTUR_APPLICATION_NAME', type: 'string' },
+  enableCache: { env: 'VULTUR_ENABLE_CACHE', type: 'boolean' },
+  cacheDuration: { env: 'VULTUR_CACHE_DURATION', type: 'number' },
+  requestTimeout: { env: 'VULTUR_REQUEST_TIMEOUT', type: 'number' },
+  responseValidation: { env: 'VULTUR_RESPONSE_VALIDATION', type: 'string' },
+};
+
+const DEFAULT_PERMISSIONS_ENV = 'VULTUR_DEFAULT_PERMISSIONS';
+
+function configError(message: string, details?: unknown): VulturSSOError {
+  return new VulturSSOError('CONFIG_ERROR', message, details);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge `overlay` into `base`; objects merge recursively, arrays and scalars replace
+ */
+function mergeSettings<T>(base: T, overlay: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(overlay)) {
+    return (overlay === undefined ? base : overlay) as T;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    if (value !== undefined) {
+      merged[key] = mergeSettings(merged[key], value);
+    }
+  }
+  return merged as T;
+}
+
+function checkSettings(settings: unknown, source: string): VulturConfigFileSettings {
+  if (!isPlainObject(settings)) {
+    throw configError(`${source} must contain an object`);
+  }
+  for (const [key, { type }] of Object.entries(SETTINGS)) {
+    if (settings[key] !== undefined && typeof settings[key] !== type) {
+      throw configError(`${source}: ${key} must be a ${type}`);
+    }
+  }
+  if (settings.permissionConfig !== undefined && !isPlainObject(settings.permissionConfig)) {
+    throw configError(`${source}: permissionConfig must be an object`);
+  }
+  if (settings.permissionConfig?.permissions !== undefined && !Array.isArray(settings.permissionConfig.permissions)) {
+    throw configError(`${source}: permissionConfig.permissions must be an array`);
+  }
+  checkDefaultPermissions(settings.permissionConfig?.defaultPermissions, source);
+  return settings as VulturConfigFileSettings;
+}
+
+/**
+ * Check default permissions the way parseDefaultPermissions checks VULTUR_DEFAULT_PERMISSIONS
+ */
+function checkDefaultPermissions(defaults: unknown, source: string): void {
+  if (defaults === undefined) {
+    return;
+  }
+  if (!Array.isArray(defaults)) {
+    throw configError(`${source}: permissionConfig.defaultPermissions must be an array`);
+  }
+  defaults.forEach((entry, index) => {
+    const path = `permissionConfig.defaultPermissions[${index}]`;
+    if (!isPlainObject(entry)) {
+      throw configError(`${source}: ${path} must be an object`);
+    }
+    if (typeof entry.scope !== 'string' && !isPlainObject(entry.scope)) {
+      throw configError(`${source}: ${path}.scope must be a scope id or a scope`);
+    }
+    if (entry.effect !== 'allow' && entry.effect !== 'deny') {
+      throw configError(`${source}: ${path}.effect must be allow or deny, got '${entry.effect}'`);
+    }
+  });
+}
+
+function parseEnvSetting(name: string, value: string, type: SettingType): string | number | boolean {
+  switch (type) {
+    case 'string':
+      return value;
+    case 'number': {
+      const number = Number(value);
+      if (value.trim() === '' || !Number.isFinite(number)) {
+        throw configError(`${name} must be a number, got '${value}'`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (!['true', 'false', '1', '0'].includes(value.toLowerCase())) {
+        throw configError(`${name} must be true or false, got '${value}'`);
+      }
+      return value.toLowerCase() === 'true' || value === '1';
+  }
+}
+
+/**
+ * Parse `VULTUR_DEFAULT_PERMISSIONS`, e.g. `tribes:read,fleet:read=allow,fleet:delete=deny`
+ */
+function parseDefaultPermissions(value: string): VulturConfigFileDefaultPermission[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [scope, effect = 'allow'] = entry.split('=').map(part => part.trim());
+      if (effect !== 'allow' && effect !== 'deny') {
+        throw configError(`${DEFAULT_PERMISSIONS_ENV}: effect for '${scope}' must be allow or deny, got '${effect}'`);
+      }
+      return { scope, effect };
+    });
+}
+
+function readEnvOverrides(env: Record<string, string | undefined>): VulturConfigFileSettings {
+  const overrides: Record<string, unknown> = {};
+  for (const [key, { env: name, type }] of Object.entries(SETTINGS)) {
+    const value = env[name];
+    if (value !== undefined && value !== '') {
+      overrides[key] = parseEnvSetting(name, value, type);
+    }
+  }
+
+  const defaultPermissions = env[DEFAULT_PERMISSIONS_ENV];
+  if (defaultPermissions !== undefined) {
+    overrides.permissionConfig = {
+      defaultPermissions: parseDefaultPermissions(defaultPermissions),
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+  return overrides as VulturConfigFileSettings;
+}
+
+async function findConfigFile(cwd: string): Promise<string | null> {
+  const { promises: fs } = await import('fs');
+  const { join } = await import('path');
+  for (const name of VULTUR_CONFIG_FILES) {
+    const candidate = join(cwd, name);
+    try {
+      if ((await fs.stat(candidate)).isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Not there, try the next name
+    }
+  }
+  return null;
+}
+
+async function parseConfigFile(path: string, contents: string): Promise<unknown> {
+  if (/\.ya?ml$/i.test(path)) {
+    let yaml: typeof import('yaml');
+    try {
+      yaml = await import('yaml');
+    } catch {
+      throw configError(`Install the 'yaml' package to load ${path}`);
+    }
+    try {
+      return yaml.parse(contents);
+    } catch (error) {
+      throw configError(`Could not parse ${path}: ${(error as Error).message}`, error);
+    }
+  }
+
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    throw configError(`Could not parse ${path}: ${(error as Error).message}`, error);
+  }
+}
+
+async function readConfigFile(path: string): Promise<{ file: VulturConfigFile; modified: Date }> {
+  const { promises: fs } = await import('fs');
+  let contents: string;
+  let modified: Date;
+  try {
+    contents = await fs.readFile(path, 'utf8');
+    modified = (await fs.stat(path)).mtime;
+  } catch (error) {
+    throw configError(`Could not read ${path}: ${(error as Error).message}`, error);
+  }
+
+  const file = checkSettings(await parseConfigFile(path, contents), path) as VulturConfigFile;
+  if (file.environments !== undefined && !isPlainObject(file.environments)) {
+    throw configError(`${path}: environments must be an object`);
+  }
+  for (const [name, overlay] of Object.entries(file.environments ?? {})) {
+    checkSettings(overlay, `${path} (environments.${name})`);
+  }
+  return { file, modified };
+}
+
+/**
+ * Turn default permissions that reference scopes by id into full permissions.
+ * Unknown ids are kept as bare scopes so validation reports them.
+ */
+function resolveDefaultPermissions(
+  defaults: VulturConfigFileDefaultPermission[],
+  scopes: PermissionScope[]
+): Permission[] {
+  return defaults.map(({ scope, effect }) => {
+    if (typeof scope !== 'string') {
+      return { scope, effect };
+    }
+    const [resource = '', action = ''] = scope.split(':');
+    const known = scopes.find(candidate => isPlainObject(candidate) && candidate.id === scope);
+    return { scope: known ?? { id: scope, name: scope, resource, action }, effect };
+  });
+}
+
+/**
+ * Build a VulturSSOClientConfig from, in increasing precedence: `defaults`,
+ * the config file, the file's overlay for the current environment and
+ * VULTUR_* environment variables. The permission config is validated before
+ * the result is returned.
+ *
+ * ```typescript
+ * const config = await loadVulturConfig({ defaults: { permissionConfig } });
+ * initializeVulturSSO(config);
+ * ```
+ */
+export async function loadVulturConfig(options: LoadVulturConfigOptions = {}): Promise<VulturSSOClientConfig> {
+  const env = options.env ?? process.env;
+  const environment = options.environment ?? env.VULTUR_ENV ?? env.NODE_ENV ?? 'development';
+  const path = options.path ?? (await findConfigFile(options.cwd ?? process.cwd()));
+  const source = path ?? 'VULTUR_* environment variables';
+
+  let settings: VulturConfigFileSettings = {};
+  if (path) {
+    const { file, modified } = await readConfigFile(path);
+    const { environments, ...base } = file;
+    settings = mergeSettings(base, environments?.[environment]);
+    if (settings.permissionConfig && settings.permissionConfig.lastUpdated === undefined) {
+      settings.permissionConfig.lastUpdated = modified.toISOString();
+    }
+  }
+  settings = mergeSettings(settings, readEnvOverrides(env));
+
+  const { permissionConfig: filePermissionConfig, ...fileSettings } = settings;
+  const config = { ...options.defaults, ...fileSettings } as Partial<VulturSSOClientConfig>;
+
+  if (!config.identApiUrl) {
+    throw configError(`${source}: identApiUrl is required (or set ${SETTINGS.identApiUrl.env})`);
+  }
+  if (!config.applicationName) {
+    throw configError(`${source}: applicationName is required (or set ${SETTINGS.applicationName.env})`);
+  }
+  if (config.responseValidation !== undefined && !['strict', 'lenient'].includes(config.responseValidation)) {
+    throw configError(`${source}: responseValidation must be 'strict' or 'lenient'`);
+  }
+
+  if (!filePermissionConfig && !options.defaults?.permissionConfig) {
+    throw configError(`${source}: permissionConfig is required`);
+  }
+
+  const { defaultPermissions, ...permissionSettings } = filePermissionConfig ?? {};
+  const basePermissionConfig = mergeSettings(
+    { applicationName: config.applicationName, permissions: [], ...options.defaults?.permissionConfig },
+    permissionSettings
+  ) as VulturPermissionConfig;
+
+  const permissionConfig: VulturPermissionConfig = {
+    ...basePermissionConfig,
+    defaultPermissions: defaultPermissions
+      ? resolveDefaultPermissions(defaultPermissions, basePermissionConfig.permissions)
+      : basePermissionConfig.defaultPermissions,
+  };
+
+  const permissionConfigValidation = options.permissionConfigValidation ?? config.permissionConfigValidation;
+  try {
+    assertValidPermissionConfig(permissionConfig, permissionConfigValidation);
+  } catch (error) {
+    throw error instanceof VulturSSOError
+      ? configError(`${source}: ${error.message}`, error.details)
+      : configError(`${source}: invalid permission configuration`, error);
+  }
+
+  return {
+    ...config,
+    identApiUrl: config.identApiUrl,
+    applicationName: config.applicationName,
+    permissionConfig,
+    ...(permissionConfigValidation && { permissionConfigValidation }),
+  };
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserInfo } from './types';
+import { VulturSSOError } from './errors';
+import { RouteGuardOptions, toGuardFailure } from './guards';
+import {
+  ServerPermissionChecker,
+  ServerPermissionCheckerOptions,
+  VulturIdentServerClient,
+  extractJWT,
+} from './server';
+
+/**
+ * What a route requires:
+ * - a permission scope string, e.g. `'fleet:read'`
+ * - `true` for any authenticated user
+ * - an object combining `permission`, `role` and `admin`
+ */
+export type RouteRequirement =
+  | string
+  | true
+  | {
+      permission?: string;
+      role?: string;
+      admin?: boolean;
+    };
+
+/**
+ * Map of path patterns to requirements. Patterns support `:name` (one
+ * segment), `:name*` / `*` (any remaining segments) and `:name+` (at least
+ * one segment). The first matching pattern wins.
+ */
+export type RoutePermissionMap = Record<string, RouteRequirement>;
+
+/**
+ * Options for createVulturEdgeMiddleware
+ */
+export type VulturEdgeMiddlewareOptions = RouteGuardOptions & ServerPermissionCheckerOptions & {
+  /** Application the permission scopes belong to */
+  applicationName: string;
+  /** Protected routes */
+  routes: RoutePermissionMap;
+  /** Optional: where unauthenticated page requests are redirected (default: '/login') */
+  loginUrl?: string;
+  /** Optional: query parameter carrying the original path to the login page (default: 'returnTo') */
+  returnToParam?: string;
+  /** Optional: decide whether a request is an API call answered with 401/403 (default: paths under /api) */
+  isApiRequest?: (request: NextRequest) => boolean;
+};
+
+type CompiledRoute = {
+  pattern: RegExp;
+  requirement: RouteRequirement;
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a path pattern such as `/fleet/:id/:path*` into a RegExp
+ */
+export function compileRoutePattern(pattern: string): RegExp {
+  const segments = pattern.split('/').filter(Boolean);
+  const source = segments
+    .map(segment => {
+      if (segment === '*' || /^:\w+\*$/.test(segment)) {
+        return '(?:/.*)?';
+      }
+      if (/^:\w+\+$/.test(segment)) {
+        return '/.+';
+      }
+      if (/^:\w+\?$/.test(segment)) {
+        return '(?:/[^/]+)?';
+      }
+      if (/^:\w+$/.test(segment)) {
+        return '/[^/]+';
+      }
+      return `/${escapeRegExp(segment)}`;
+    })
+    .join('');
+
+  return new RegExp(`^${source}/?$`);
+}
+
+async function checkRequirement(
+  checker: ServerPermissionChecker,
+  user: UserInfo,
+  token: string,
+  requirement: RouteRequirement
+): Promise<void> {
+  if (requirement === true) {
+    return;
+  }
+
+  const { permission, role, admin } = typeof requirement === 'string' ? { permission: requirement } : requirement;
+
+  if (admin && !user.is_admin) {
+    throw new VulturSSOError('FORBIDDEN', 'Admin access required');
+  }
+  if (role && !(await checker.hasRole(user.eth_address, role, token))) {
+    throw new VulturSSOError('FORBIDDEN', `Role '${role}' required`);
+  }
+  if (permission && !(await checker.checkForUser(user, permission, token))) {
+    throw new VulturSSOError('FORBIDDEN', `Permission '${permission}' required`, { requiredPermission: permission });
+  }
+}
+
+/**
+ * Next.js middleware guarding whole URL trees. Runs in the Edge runtime.
+ * Unauthenticated page requests are redirected to the login page; API
+ * requests and forbidden pages get a problem+json 401/403.
+ *
+ * ```typescript
+ * // middleware.ts
+ * export default createVulturEdgeMiddleware(client, {
+ *   applicationName: 'my-app',
+ *   routes: {
+ *     '/fleet/:path*': 'fleet:read',
+ *     '/admin/*': { role: 'Administrator' },
+ *     '/api/fleet/:path*': 'fleet:read',
+ *   },
+ * });
+ * ```
+ */
+export function createVulturEdgeMiddleware(client: VulturIdentServerClient, options: VulturEdgeMiddlewareOptions) {
+  const checker = new ServerPermissionChecker(client, options.applicationName, options);
+  const routes: CompiledRoute[] = Object.entries(options.routes).map(([pattern, requirement]) => ({
+    pattern: compileRoutePattern(pattern),
+    requirement,
+  }));
+  const isApiRequest = options.isApiRequest
+    ?? ((request: NextRequest) => /^\/api(\/|$)/.test(request.nextUrl.pathname));
+
+  return async function vulturMiddleware(request: NextRequest): Promise<NextResponse> {
+    const { pathname, search } = request.nextUrl;
+    const route = routes.find(candidate => candidate.pattern.test(pathname));
+    if (!route) {
+      return NextResponse.next();
+    }
+
+    const token = extractJWT(request, client.getTokenSources());
+    try {
+      if (!token) {
+        throw new VulturSSOError('UNAUTHORIZED', 'No JWT token provided');
+      }
+      const user = await client.validateToken(token);
+      await checkRequirement(checker, user, token, route.requirement);
+      return NextResponse.next();
+    } catch (error) {
+      const failure = toGuardFailure(error, token !== null, options);
+
+      if (failure.status === 401 && !isApiRequest(request)) {
+        const loginUrl = new URL(options.loginUrl ?? '/login', request.url);
+        loginUrl.searchParams.set(options.returnToParam ?? 'returnTo', `${pathname}${search}`);
+        return NextResponse.redirect(loginUrl);
+      }
+
+      return new NextResponse(JSON.stringify(failure.body), { status: failure.status, headers: failure.headers });
+    }
+  };
+}
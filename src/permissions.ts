@@ -0,0 +1,405 @@
+/**
+ * Permission resolution shared by the React hooks and the server-side checker
+ * Both sides evaluate scopes with the same rules so they always agree
+ */
+
+import { Permission, PermissionEffect, PermissionScope, UserInfo, UserRole, VulturPermissionConfig } from './types';
+import { VulturSSOError } from './errors';
+import { ConditionContext, conditionsHold, parseCondition } from './conditions';
+import { findVulturSSOConfig } from './config';
+
+/**
+ * How conflicting permissions for the same scope are combined:
+ * - 'deny-overrides': any matching deny wins
+ * - 'allow-overrides': any matching allow wins
+ * - 'first-applicable': the first matching permission wins
+ */
+export type CombiningAlgorithm = 'deny-overrides' | 'allow-overrides' | 'first-applicable';
+
+/**
+ * Scope id to every scope id it implies, directly or transitively
+ */
+export type ImplicationGraph = ReadonlyMap<string, readonly string[]>;
+
+/**
+ * Resource a permission check is about, for conditional permissions
+ */
+export type PermissionCheckOptions = {
+  /** Optional: attributes of the resource being accessed, available to conditions as `resource.*` */
+  resource?: Record<string, unknown>;
+  /** Optional: id of the resource instance being accessed, matched against instance grants */
+  resourceId?: string | number;
+};
+
+/**
+ * What a permission check is evaluated against
+ */
+export type PermissionEvaluationContext = ConditionContext & {
+  /** Optional: id of the resource instance being accessed */
+  resourceId?: string | number;
+};
+
+/**
+ * Read the id of a resource for instance checks
+ */
+export type ResourceIdGetter<T> = (resource: T) => string | number | null | undefined;
+
+/**
+ * Default ResourceIdGetter: the resource's `id` property
+ */
+export function getResourceId(resource: object): string | number | undefined {
+  const id = (resource as { id?: unknown }).id;
+  return typeof id === 'string' || typeof id === 'number' ? id : undefined;
+}
+
+/**
+ * Options shared by every PermissionResolver
+ */
+export type PermissionResolverOptions = {
+  /** Optional: how conflicting permissions are combined (default: 'deny-overrides') */
+  combiningAlgorithm?: CombiningAlgorithm;
+  /** Optional: scopes implied by each scope, from buildImplicationGraph (default: built from the resolver's permission config) */
+  implications?: ImplicationGraph;
+};
+
+/**
+ * Permission resolver that combines user roles with application permissions.
+ * `S` is the union of the application's scope ids; checks made through
+ * `usePermissionCheck` or `ServerPermissionChecker` only accept those ids.
+ *
+ * Implications come from `options.implications`, else from the permission
+ * config passed to the constructor, else from the config given to
+ * initializeVulturSSO when it is for the same application.
+ */
+export abstract class PermissionResolver<S extends string = string> {
+  readonly combiningAlgorithm: CombiningAlgorithm;
+  /** Scope ids of the application, when the resolver knows them; carries `S` for type inference */
+  declare readonly scopeIds?: readonly S[];
+  private applicationName: string;
+  private implicationGraph: ImplicationGraph | null;
+  private initializedGraph: { config: VulturPermissionConfig; graph: ImplicationGraph } | null = null;
+
+  constructor(application: string | VulturPermissionConfig<S>, options: PermissionResolverOptions = {}) {
+    this.applicationName = typeof application === 'string' ? application : application.applicationName;
+    this.combiningAlgorithm = options.combiningAlgorithm ?? 'deny-overrides';
+    this.implicationGraph = options.implications
+      ?? (typeof application === 'string' ? null : buildImplicationGraph(application.permissions));
+  }
+
+  /**
+   * Scopes implied by each scope, directly or transitively
+   */
+  get implications(): ImplicationGraph {
+    if (this.implicationGraph) {
+      return this.implicationGraph;
+    }
+
+    // Read on every check: the resolver may be created before initializeVulturSSO
+    const config = findVulturSSOConfig()?.permissionConfig;
+    if (!config || config.applicationName !== this.applicationName) {
+      return new Map();
+    }
+    if (this.initializedGraph?.config !== config) {
+      this.initializedGraph = { config, graph: buildImplicationGraph(config.permissions) };
+    }
+    return this.initializedGraph.graph;
+  }
+
+  abstract resolveUserPermissions(
+    user: UserInfo,
+    roles: UserRole[],
+  ): Permission[];
+}
+
+/**
+ * Permission resolver that does nothing
+ */
+export class NoOpPermissionResolver extends PermissionResolver {
+  resolveUserPermissions(
+    user: UserInfo,
+    roles: UserRole[],
+  ): Permission[] {
+    console.warn('NoOpPermissionResolver is being used, configure with a custom resolver for this application');
+    return [];
+  }
+}
+
+/**
+ * Whether a scope pattern covers a scope id. Patterns match segment by
+ * segment on `:`; `*` matches any one segment, a trailing `*` matches the
+ * rest, and `'*'` alone matches everything.
+ */
+export function scopeMatches(pattern: string, scopeId: string): boolean {
+  if (pattern === scopeId || pattern === '*') {
+    return true;
+  }
+
+  const patternSegments = pattern.split(':');
+  const scopeSegments = scopeId.split(':');
+  const trailingWildcard = patternSegments[patternSegments.length - 1] === '*';
+
+  if (trailingWildcard ? scopeSegments.length < patternSegments.length : scopeSegments.length !== patternSegments.length) {
+    return false;
+  }
+
+  return patternSegments.every((segment, index) => segment === '*' || segment === scopeSegments[index]);
+}
+
+/**
+ * Follow the `implies` declarations of every scope, rejecting unknown
+ * scope ids and cycles
+ *
+ * ```typescript
+ * const implications = buildImplicationGraph(permissionConfig.permissions);
+ * implications.get('warehouse:admin'); // ['warehouse:write', 'warehouse:delete', 'warehouse:read']
+ * ```
+ */
+export function buildImplicationGraph(scopes: PermissionScope[]): ImplicationGraph {
+  const declared = new Map(scopes.map(scope => [scope.id, scope.implies ?? []]));
+
+  for (const scope of scopes) {
+    const unknown = (scope.implies ?? []).filter(id => !declared.has(id));
+    if (unknown.length > 0) {
+      throw new VulturSSOError(
+        'CONFIG_ERROR',
+        `Permission scope '${scope.id}' implies unknown scopes: ${unknown.join(', ')}`,
+        { scope: scope.id, unknownScopes: unknown }
+      );
+    }
+  }
+
+  const graph = new Map<string, string[]>();
+  const visiting: string[] = [];
+
+  const visit = (id: string): string[] => {
+    const known = graph.get(id);
+    if (known) {
+      return known;
+    }
+    if (visiting.includes(id)) {
+      const cycle = [...visiting.slice(visiting.indexOf(id)), id];
+      throw new VulturSSOError(
+        'CONFIG_ERROR',
+        `Permission scope implications form a cycle: ${cycle.join(' -> ')}`,
+        { cycle }
+      );
+    }
+
+    visiting.push(id);
+    const implied = new Set<string>();
+    for (const direct of declared.get(id) ?? []) {
+      implied.add(direct);
+      visit(direct).forEach(transitive => implied.add(transitive));
+    }
+    visiting.pop();
+
+    const result = Array.from(implied);
+    graph.set(id, result);
+    return result;
+  };
+
+  scopes.forEach(scope => visit(scope.id));
+  return graph;
+}
+
+/**
+ * Whether a permission applies to the resource instance being checked.
+ * Instance grants only apply to checks naming that resource id.
+ */
+function matchesResourceInstance(permission: Permission, context?: PermissionEvaluationContext): boolean {
+  if (permission.resourceId === undefined) {
+    return true;
+  }
+  return context?.resourceId !== undefined && String(context.resourceId) === permission.resourceId;
+}
+
+/**
+ * Combine every permission matching `scopeId` into a single effect,
+ * or null when no permission applies. Allows on a scope also apply to
+ * the scopes it implies; denies only apply to the scope itself.
+ * Conditional permissions only apply when their conditions hold in `context`,
+ * instance grants only when `context` names their resource id.
+ */
+export function evaluatePermissions(
+  permissions: Permission[],
+  scopeId: string,
+  combiningAlgorithm: CombiningAlgorithm = 'deny-overrides',
+  implications: ImplicationGraph = new Map(),
+  context?: PermissionEvaluationContext
+): PermissionEffect | null {
+  const applicable = permissions.filter(
+    p =>
+      (scopeMatches(p.scope.id, scopeId) ||
+        (p.effect === 'allow' && (implications.get(p.scope.id) ?? []).includes(scopeId))) &&
+      matchesResourceInstance(p, context) &&
+      conditionsHold(p.conditions, context)
+  );
+  if (applicable.length === 0) {
+    return null;
+  }
+
+  switch (combiningAlgorithm) {
+    case 'first-applicable':
+      return applicable[0].effect;
+    case 'allow-overrides':
+      return applicable.some(p => p.effect === 'allow') ? 'allow' : 'deny';
+    case 'deny-overrides':
+      return applicable.some(p => p.effect === 'deny') ? 'deny' : 'allow';
+  }
+}
+
+/**
+ * Whether resolved permissions grant `scopeId` with the required effect
+ */
+export function hasPermissionEffect(
+  permissions: Permission[],
+  scopeId: string,
+  requiredEffect: PermissionEffect = 'allow',
+  combiningAlgorithm: CombiningAlgorithm = 'deny-overrides',
+  implications: ImplicationGraph = new Map(),
+  context?: PermissionEvaluationContext
+): boolean {
+  return evaluatePermissions(permissions, scopeId, combiningAlgorithm, implications, context) === requiredEffect;
+}
+
+/**
+ * Scope granted by a role on specific resource instances or under conditions
+ */
+export type RoleScopeGrant = {
+  /** Scope id or pattern */
+  scope: string;
+  /** Optional: conditions that must all hold, e.g. `'resource.tribe_id == user.tribe_id'` */
+  conditions?: string[];
+  /** Optional: only grant the scope on these resource instances */
+  resourceIds?: Array<string | number>;
+};
+
+/**
+ * Options for RoleMappingPermissionResolver
+ */
+export type RoleMappingPermissionResolverOptions = PermissionResolverOptions & {
+  /** Role name to granted scope ids or patterns, e.g. `'fleet:*'`, `'*:read'` or `'*'` */
+  roles: Record<string, Array<string | RoleScopeGrant>>;
+  /** Optional: what `is_admin` grants - every scope (true), nothing extra (false) or the listed scopes (default: true) */
+  adminGrant?: boolean | string[];
+};
+
+type ScopeGrant = {
+  scope: PermissionScope;
+  conditions?: string[];
+  resourceId?: string;
+};
+
+/**
+ * Expand a scope reference into the matching scopes of the application
+ */
+function expandScopeReference(reference: string, scopes: PermissionScope[]): PermissionScope[] {
+  return scopes.filter(scope => scopeMatches(reference, scope.id));
+}
+
+/**
+ * Permission resolver configured with a role-to-scope map.
+ * Only active roles count, and every referenced scope must exist in the
+ * application's permission configuration. Checks follow the `implies`
+ * declarations of that configuration.
+ *
+ * ```typescript
+ * const resolver = new RoleMappingPermissionResolver(permissionConfig, {
+ *   roles: {
+ *     'Fleet Commander': ['fleet:*'],
+ *     'Fleet Officer': [{ scope: 'fleet:write', conditions: ['resource.tribe_id == user.tribe_id'] }],
+ *     'Depot Manager': [{ scope: 'warehouse:*', resourceIds: ['42'] }],
+ *     'Warehouse Worker': ['warehouse:read', 'warehouse:pick'],
+ *   },
+ * });
+ * ```
+ */
+export class RoleMappingPermissionResolver<S extends string = string> extends PermissionResolver<S> {
+  readonly scopeIds: readonly S[];
+  private grants = new Map<string, ScopeGrant[]>();
+  private adminScopes: PermissionScope[];
+  private scopeOrder: Map<string, number>;
+
+  constructor(permissionConfig: VulturPermissionConfig<S>, options: RoleMappingPermissionResolverOptions) {
+    super(permissionConfig, options);
+    this.scopeIds = permissionConfig.permissions.map(scope => scope.id);
+
+    const scopes = permissionConfig.permissions;
+    const unknown: string[] = [];
+    const expand = (references: string[]) =>
+      references.flatMap(reference => {
+        const matches = expandScopeReference(reference, scopes);
+        if (matches.length === 0) {
+          unknown.push(reference);
+        }
+        return matches;
+      });
+
+    for (const [role, references] of Object.entries(options.roles)) {
+      this.grants.set(
+        role,
+        references.flatMap(reference => {
+          if (typeof reference === 'string') {
+            return expand([reference]).map(scope => ({ scope }));
+          }
+          const { conditions, resourceIds } = reference;
+          conditions?.forEach(parseCondition);
+          return expand([reference.scope]).flatMap(scope =>
+            resourceIds
+              ? resourceIds.map(resourceId => ({ scope, conditions, resourceId: String(resourceId) }))
+              : [{ scope, conditions }]
+          );
+        })
+      );
+    }
+
+    const adminGrant = options.adminGrant ?? true;
+    this.adminScopes = adminGrant === true ? scopes : adminGrant === false ? [] : expand(adminGrant);
+
+    if (unknown.length > 0) {
+      throw new VulturSSOError(
+        'CONFIG_ERROR',
+        `Role mapping references unknown permission scopes for ${permissionConfig.applicationName}: ${unknown.join(', ')}`,
+        { unknownScopes: unknown }
+      );
+    }
+
+    this.scopeOrder = new Map(scopes.map((scope, index) => [scope.id, index]));
+  }
+
+  resolveUserPermissions(
+    user: UserInfo,
+    roles: UserRole[],
+  ): Permission[] {
+    const granted = new Map<string, PermissionScope>();
+    const qualified: Permission[] = [];
+    const grant = (grants: ScopeGrant[]) =>
+      grants.forEach(({ scope, conditions, resourceId }) => {
+        if (conditions || resourceId !== undefined) {
+          qualified.push({
+            scope,
+            effect: 'allow',
+            ...(conditions && { conditions }),
+            ...(resourceId !== undefined && { resourceId }),
+          });
+        } else {
+          granted.set(scope.id, scope);
+        }
+      });
+
+    for (const role of roles) {
+      if (role.is_active) {
+        grant(this.grants.get(role.name) ?? []);
+      }
+    }
+    if (user.is_admin) {
+      grant(this.adminScopes.map(scope => ({ scope })));
+    }
+
+    // An unconditional grant makes conditional and instance grants of the same scope redundant
+    return [
+      ...Array.from(granted.values()).map(scope => ({ scope, effect: 'allow' as const })),
+      ...qualified.filter(permission => !granted.has(permission.scope.id)),
+    ].sort((a, b) => (this.scopeOrder.get(a.scope.id) ?? 0) - (this.scopeOrder.get(b.scope.id) ?? 0));
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * RFC 7807 problem details for error responses
+ * Shared by the well-known handlers, the route guards and API routes using this library
+ */
+
+import type { NextApiResponse } from 'next';
+import { VulturSSOError, VulturSSOErrorCode, getErrorStatus } from './errors';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * application/problem+json body
+ */
+export type ProblemDetails = {
+  /** URI identifying the problem type ('about:blank' when only the status matters) */
+  type: string;
+  /** Short summary of the problem type */
+  title: string;
+  /** HTTP status code */
+  status: number;
+  /** Explanation specific to this occurrence */
+  detail?: string;
+  /** URI identifying this occurrence */
+  instance?: string;
+  /** VulturSSOError code, when the problem came from one */
+  vulturCode?: VulturSSOErrorCode;
+  /** Permission the request was missing (403 only) */
+  requiredPermission?: string;
+  /** Seconds to wait before retrying */
+  retryAfter?: number;
+  /** Request id reported by vultur-ident-api */
+  requestId?: string;
+  [extension: string]: unknown;
+};
+
+const PROBLEM_TITLES: Record<VulturSSOErrorCode, string> = {
+  UNAUTHORIZED: 'Unauthorized',
+  TOKEN_EXPIRED: 'Token expired',
+  FORBIDDEN: 'Forbidden',
+  NOT_FOUND: 'Not found',
+  RATE_LIMITED: 'Too many requests',
+  TIMEOUT: 'Identity service timed out',
+  UPSTREAM_ERROR: 'Identity service error',
+  INVALID_RESPONSE: 'Invalid identity service response',
+  NETWORK_ERROR: 'Identity service unreachable',
+  CONFIG_ERROR: 'Configuration error',
+  CIRCUIT_OPEN: 'Identity service unavailable',
+};
+
+const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+const STATUS_CODES: Partial<Record<number, VulturSSOErrorCode>> = {
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  429: 'RATE_LIMITED',
+};
+
+/**
+ * Problem type URI for a VulturSSOError code, e.g. `urn:vultur:problem:token-expired`
+ */
+export function getProblemType(code: VulturSSOErrorCode): string {
+  return `urn:vultur:problem:${code.toLowerCase().replace(/_/g, '-')}`;
+}
+
+/**
+ * Problem details identified by status alone (`type: 'about:blank'`)
+ */
+export function createProblem(
+  status: number,
+  detail?: string,
+  extensions: Record<string, unknown> = {}
+): ProblemDetails {
+  return {
+    type: 'about:blank',
+    title: STATUS_TITLES[status] ?? 'Error',
+    status,
+    ...(detail !== undefined && { detail }),
+    ...extensions,
+  };
+}
+
+/**
+ * Describe an error as problem details. Errors other than VulturSSOError
+ * become a generic 500 so internal messages are not leaked.
+ */
+export function toProblemDetails(error: unknown, extensions: Record<string, unknown> = {}): ProblemDetails {
+  if (!(error instanceof VulturSSOError)) {
+    return createProblem(500, undefined, extensions);
+  }
+
+  const details = typeof error.details === 'object' && error.details !== null
+    ? (error.details as Record<string, unknown>)
+    : {};
+
+  return {
+    type: getProblemType(error.code),
+    title: PROBLEM_TITLES[error.code],
+    status: getErrorStatus(error),
+    detail: error.message,
+    vulturCode: error.code,
+    ...(typeof details.requiredPermission === 'string' && { requiredPermission: details.requiredPermission }),
+    ...(error.retryAfter !== undefined && { retryAfter: error.retryAfter }),
+    ...(error.requestId !== undefined && { requestId: error.requestId }),
+    ...extensions,
+  };
+}
+
+/**
+ * Build an application/problem+json Response for an error
+ *
+ * ```typescript
+ * try {
+ *   // ...
+ * } catch (error) {
+ *   return toProblemResponse(error);
+ * }
+ * ```
+ */
+export function toProblemResponse(
+  error: unknown,
+  init: { headers?: HeadersInit; extensions?: Record<string, unknown> } = {}
+): Response {
+  const problem = toProblemDetails(error, init.extensions);
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', PROBLEM_CONTENT_TYPE);
+  if (problem.retryAfter !== undefined && !headers.has('Retry-After')) {
+    headers.set('Retry-After', String(problem.retryAfter));
+  }
+
+  return new Response(JSON.stringify(problem), { status: problem.status, headers });
+}
+
+/**
+ * Send an error body from a Pages Router handler, as problem+json unless
+ * `headers` sets another Content-Type.
+ * res.json() would overwrite the content type, so the body is serialized here.
+ */
+export function sendProblem(
+  res: NextApiResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.setHeader('Content-Type', PROBLEM_CONTENT_TYPE);
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+  res.status(status).send(JSON.stringify(body));
+}
+
+/**
+ * Whether a parsed response body is RFC 7807 problem details
+ */
+export function isProblemDetails(value: unknown): value is ProblemDetails {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const problem = value as Record<string, unknown>;
+  return typeof problem.type === 'string' && typeof problem.title === 'string' && typeof problem.status === 'number';
+}
+
+/**
+ * Turn problem details received from an API route back into a VulturSSOError
+ */
+export function fromProblemDetails(problem: ProblemDetails): VulturSSOError {
+  const code = problem.vulturCode && problem.vulturCode in PROBLEM_TITLES
+    ? problem.vulturCode
+    : STATUS_CODES[problem.status] ?? (problem.status >= 500 ? 'UPSTREAM_ERROR' : 'NETWORK_ERROR');
+
+  return new VulturSSOError(code, problem.detail ?? problem.title, problem, {
+    status: problem.status,
+    retryAfter: problem.retryAfter,
+    requestId: problem.requestId,
+  });
+}
@@ -0,0 +1,210 @@
+/**
+ * Retry and circuit breaker utilities for calls to vultur-ident-api
+ */
+
+/**
+ * Retry configuration for idempotent requests
+ */
+export type RetryConfig = {
+  /** Number of retries after the first attempt (default: 2) */
+  retries?: number;
+  /** Base delay in milliseconds, doubled on every attempt (default: 100) */
+  baseDelay?: number;
+  /** Upper bound for a single delay in milliseconds (default: 2000) */
+  maxDelay?: number;
+  /** Randomize delays to avoid synchronized retries across instances (default: true) */
+  jitter?: boolean;
+};
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker configuration
+ */
+export type CircuitBreakerConfig = {
+  /** Consecutive failures before the circuit opens (default: 5) */
+  failureThreshold?: number;
+  /** Time in milliseconds the circuit stays open before a trial request is let through (default: 30 seconds) */
+  resetTimeout?: number;
+  /** Called whenever the circuit changes state */
+  onStateChange?: (state: CircuitState, previousState: CircuitState) => void;
+};
+
+/**
+ * Compute the delay before retry number `attempt` (0-based)
+ */
+export function computeBackoffDelay(attempt: number, config: RetryConfig = {}): number {
+  const baseDelay = config.baseDelay ?? 100;
+  const maxDelay = config.maxDelay ?? 2000;
+  const delay = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return config.jitter === false ? delay : Math.random() * delay;
+}
+
+/**
+ * Wait `ms` milliseconds, rejecting with the signal's reason if it aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with `promise`, or reject with the signal's reason if it aborts
+ * first. The underlying work is not cancelled, so shared work such as a
+ * JWKS fetch keeps going for other waiters.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Tracks consecutive failures and fails fast while the upstream is down
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private failureThreshold: number;
+  private resetTimeout: number;
+
+  constructor(private config: CircuitBreakerConfig = {}) {
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.resetTimeout = config.resetTimeout ?? 30 * 1000;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be sent now. In half-open state only a single
+   * trial request is allowed until it succeeds or fails.
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.resetTimeout) {
+        return false;
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Release a half-open trial slot for a request that was cancelled by its caller
+   */
+  cancelRequest(): void {
+    this.trialInFlight = false;
+  }
+
+  reset(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previousState = this.state;
+    this.state = state;
+    this.config.onStateChange?.(state, previousState);
+  }
+}
+
+/**
+ * Abort signal combining a caller's signal with a timeout
+ */
+export type RequestSignal = {
+  signal?: AbortSignal;
+  /** Whether the request was aborted by the timeout rather than the caller */
+  timedOut(): boolean;
+  /** Clear the timeout and detach from the caller's signal */
+  cleanup(): void;
+};
+
+/**
+ * Create a signal that aborts when the caller aborts or the timeout elapses
+ */
+export function createRequestSignal(signal?: AbortSignal, timeout?: number): RequestSignal {
+  if (!timeout || timeout <= 0) {
+    return { signal, timedOut: () => false, cleanup: () => undefined };
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort(signal?.reason);
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    cleanup: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
@@ -3,28 +3,87 @@
  * Use these in Next.js API routes to validate JWTs and interact with vultur-ident-api
  */
 
-import { UserInfo, UserRole } from './types';
+import { CheckedScopeId, Permission, UserInfo, UserRole } from './types';
+import { CacheStats, InMemoryCacheStore, VulturCacheStore, hashToken, namespaceCacheStore } from './cache';
+import { JwtClaims, JwtVerificationConfig, JwtVerifier, decodeJwt } from './jwt';
+import {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitState,
+  RetryConfig,
+  computeBackoffDelay,
+  createRequestSignal,
+  sleep,
+} from './resilience';
+import { RequestInterceptor, ResponseInterceptor, VulturFetch, createTransport } from './transport';
+import {
+  VulturSSOError,
+  createResponseError,
+  isRetryableStatus,
+  parseRetryAfter,
+} from './errors';
+import {
+  ValidationMode,
+  readValidatedResponse,
+  validatePermissionCheck,
+  validateUserInfo,
+  validateUserRoles,
+} from './validation';
+import {
+  PermissionCheckOptions,
+  PermissionEvaluationContext,
+  PermissionResolver,
+  ResourceIdGetter,
+  getResourceId,
+  hasPermissionEffect,
+} from './permissions';
+import { DEFAULT_TOKEN_SOURCES, TokenSource, describeMissingToken, extractToken } from './token';
+
+export { VulturSSOError } from './errors';
+export type { VulturSSOErrorCode, VulturSSOErrorOptions } from './errors';
 
 /**
  * Configuration for server-side operations
  */
 export type ServerConfig = {
   identApiUrl: string;
-  /** Optional: cache TTL in milliseconds */
+  /** Optional: cache TTL in milliseconds (0 disables caching) */
   cacheTTL?: number;
+  /** Optional: maximum number of cached token/role/permission lookups (default: 1000, in-memory store only) */
+  cacheMaxEntries?: number;
+  /** Optional: shared cache store (default: a process-local in-memory store) */
+  cacheStore?: VulturCacheStore;
+  /** Optional: application name, sent as X-Vultur-Application and used to namespace cached entries */
+  applicationName?: string;
+  /** Optional: verify JWT signatures locally against a JWKS instead of calling /me */
+  jwtVerification?: JwtVerificationConfig;
+  /** Optional: retry idempotent requests on 408/429/5xx, timeouts and network failures (disabled by default) */
+  retry?: RetryConfig;
+  /** Optional: fail fast with CIRCUIT_OPEN once vultur-ident-api keeps failing (disabled by default) */
+  circuitBreaker?: CircuitBreakerConfig;
+  /** Optional: default per-request timeout in milliseconds (default: 10 seconds, 0 disables) */
+  timeout?: number;
+  /** Optional: fetch implementation (default: the global fetch) */
+  fetch?: VulturFetch;
+  /** Optional: called before every request to vultur-ident-api */
+  onRequest?: RequestInterceptor;
+  /** Optional: called after every response from vultur-ident-api */
+  onResponse?: ResponseInterceptor;
+  /** Optional: how strictly ident-api responses are validated (default: 'strict') */
+  responseValidation?: ValidationMode;
+  /** Optional: where createAuthMiddleware, withAuth and withPermission look for the JWT, in order (default: Bearer Authorization header) */
+  tokenSources?: TokenSource[];
 };
 
-export class VulturSSOError extends Error {
-  public code: 'UNAUTHORIZED' | 'FORBIDDEN' | 'NOT_FOUND' | 'NETWORK_ERROR' | 'CONFIG_ERROR';
-  public details?: unknown;
-
-  constructor(code: 'UNAUTHORIZED' | 'FORBIDDEN' | 'NOT_FOUND' | 'NETWORK_ERROR' | 'CONFIG_ERROR', message: string, details?: unknown) {
-    super(message);
-    this.name = 'VulturSSOError';
-    this.code = code;
-    this.details = details;
-  }
-}
+/**
+ * Per-call options for VulturIdentServerClient requests
+ */
+export type RequestOptions = {
+  /** Abort the request, e.g. when the incoming request is cancelled */
+  signal?: AbortSignal;
+  /** Override the client's default timeout in milliseconds */
+  timeout?: number;
+};
 
 /**
  * Server-side API client for vultur-ident-api
@@ -32,82 +91,313 @@ export class VulturSSOError extends Error {
 export class VulturIdentServerClient {
   private baseUrl: string;
   private cacheTTL: number;
+  private rawCacheStore: VulturCacheStore;
+  private cacheStore: VulturCacheStore;
+  private cacheHits = 0;
+  private cacheMisses = 0;
+  private jwtVerifier: JwtVerifier | null;
+  private fallbackToRemote: boolean;
+  private retryConfig: RetryConfig | null;
+  private circuitBreaker: CircuitBreaker | null;
+  private timeout: number;
+  private transport: VulturFetch;
+  private responseValidation: ValidationMode;
+  private tokenSources: TokenSource[];
 
   constructor(config: ServerConfig) {
     this.baseUrl = config.identApiUrl.replace(/\/$/, '');
-    this.cacheTTL = config.cacheTTL || 5 * 60 * 1000; // 5 minutes default
+    this.transport = createTransport(config, { applicationName: config.applicationName, userAgent: true });
+    this.cacheTTL = config.cacheTTL ?? 5 * 60 * 1000; // 5 minutes default
+    this.rawCacheStore = config.cacheStore ?? new InMemoryCacheStore({ maxEntries: config.cacheMaxEntries });
+    this.cacheStore = namespaceCacheStore(this.rawCacheStore, config.applicationName ?? 'default');
+    this.timeout = config.timeout ?? 10 * 1000;
+    this.jwtVerifier = config.jwtVerification
+      ? new JwtVerifier(config.jwtVerification, this.baseUrl, this.transport, this.timeout)
+      : null;
+    this.fallbackToRemote = config.jwtVerification?.fallbackToRemote ?? true;
+    this.retryConfig = config.retry ?? null;
+    this.circuitBreaker = config.circuitBreaker ? new CircuitBreaker(config.circuitBreaker) : null;
+    this.responseValidation = config.responseValidation ?? 'strict';
+    this.tokenSources = config.tokenSources ?? DEFAULT_TOKEN_SOURCES;
   }
 
   /**
-   * Validate a JWT token and get user information
+   * Token sources used by the request helpers, in order
    */
-  async validateToken(token: string): Promise<UserInfo> {
-    const response = await fetch(`${this.baseUrl}/me`, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+  getTokenSources(): TokenSource[] {
+    return this.tokenSources;
+  }
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        throw new VulturSSOError('UNAUTHORIZED', 'Invalid or expired token');
+  /**
+   * Current circuit breaker state ('closed' when no breaker is configured)
+   */
+  getCircuitState(): CircuitState {
+    return this.circuitBreaker?.getState() ?? 'closed';
+  }
+
+  /**
+   * Send an authenticated GET to vultur-ident-api, retrying retryable
+   * statuses, timeouts and network failures and feeding the circuit breaker.
+   * Timeouts apply per attempt; a caller abort stops the request without
+   * retrying. Retry-After is honored up to the retry maxDelay.
+   */
+  private async request(path: string, token: string, options: RequestOptions = {}): Promise<Response> {
+    const retries = this.retryConfig ? this.retryConfig.retries ?? 2 : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      options.signal?.throwIfAborted();
+      if (this.circuitBreaker && !this.circuitBreaker.allowRequest()) {
+        throw new VulturSSOError('CIRCUIT_OPEN', 'vultur-ident-api is unavailable, failing fast');
+      }
+
+      let response: Response | null = null;
+      let networkError: unknown = null;
+      const requestSignal = createRequestSignal(options.signal, options.timeout ?? this.timeout);
+      try {
+        response = await this.transport(`${this.baseUrl}${path}`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          signal: requestSignal.signal,
+        });
+      } catch (error) {
+        if (options.signal?.aborted) {
+          this.circuitBreaker?.cancelRequest();
+          throw error;
+        }
+        networkError = requestSignal.timedOut()
+          ? new VulturSSOError('TIMEOUT', `Request to vultur-ident-api timed out after ${options.timeout ?? this.timeout}ms`, error)
+          : new VulturSSOError('NETWORK_ERROR', 'Request to vultur-ident-api failed', error);
+      } finally {
+        requestSignal.cleanup();
+      }
+
+      // Rate limiting means ident-api is up, so it doesn't count against the breaker
+      if (response === null || (response.status >= 500 || response.status === 408)) {
+        this.circuitBreaker?.recordFailure();
+      } else {
+        this.circuitBreaker?.recordSuccess();
+      }
+
+      const retryable = response === null || isRetryableStatus(response.status);
+      if (!retryable || attempt >= retries) {
+        if (response) {
+          return response;
+        }
+        throw networkError;
       }
-      throw new VulturSSOError('NETWORK_ERROR', `Token validation failed: ${response.status}`);
+
+      const retryAfter = response ? parseRetryAfter(response.headers.get('Retry-After')) : undefined;
+      const delay = retryAfter !== undefined
+        ? retryAfter * 1000
+        : computeBackoffDelay(attempt, this.retryConfig ?? undefined);
+      if (delay > (this.retryConfig?.maxDelay ?? 2000)) {
+        return response as Response;
+      }
+      await sleep(delay, options.signal);
     }
+  }
 
-    return response.json();
+  /**
+   * Get cache hit/miss statistics
+   */
+  getCacheStats(): CacheStats {
+    return {
+      hits: this.cacheHits,
+      misses: this.cacheMisses,
+      ...this.cacheStore.getStats?.(),
+    };
   }
 
   /**
-   * Get user roles by address
+   * Drop every cached token, role and permission lookup for a user
    */
-  async getUserRoles(address: string, token: string): Promise<UserRole[]> {
-    const response = await fetch(`${this.baseUrl}/users/${encodeURIComponent(address)}/roles`, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+  async invalidateUser(address: string): Promise<void> {
+    const indexKey = this.userIndexKey(address);
+    const keys = this.cacheStore.getSetMembers
+      ? await this.cacheStore.getSetMembers(indexKey)
+      : await this.cacheStore.get<string[]>(indexKey);
+    await Promise.all([...(keys ?? []), indexKey].map(key => this.cacheStore.delete(key)));
+  }
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        throw new VulturSSOError('UNAUTHORIZED', 'Invalid or expired token');
+  /**
+   * Drop every cached lookup. Clears the whole underlying store, including
+   * entries of other applications sharing it.
+   */
+  async clearCache(): Promise<void> {
+    await this.rawCacheStore.clear?.();
+  }
+
+  private userIndexKey(address: string): string {
+    return `user:${address.toLowerCase()}`;
+  }
+
+  /**
+   * Never serve a cached user past the token's own expiry
+   */
+  private tokenCacheTTL(exp: unknown): number {
+    return typeof exp === 'number' ? Math.min(this.cacheTTL, exp * 1000 - Date.now()) : this.cacheTTL;
+  }
+
+  private async readCache<T>(key: string): Promise<T | undefined> {
+    if (this.cacheTTL <= 0) {
+      return undefined;
+    }
+
+    try {
+      const value = await this.cacheStore.get<T>(key);
+      if (value === undefined) {
+        this.cacheMisses++;
+      } else {
+        this.cacheHits++;
       }
-      if (response.status === 404) {
-        throw new VulturSSOError('NOT_FOUND', 'User not found');
+      return value;
+    } catch (error) {
+      // A cache outage must not take authentication down with it
+      this.cacheMisses++;
+      return undefined;
+    }
+  }
+
+  private async writeCache(key: string, value: unknown, address: string, ttl: number = this.cacheTTL): Promise<void> {
+    if (this.cacheTTL <= 0 || ttl <= 0) {
+      return;
+    }
+
+    try {
+      await this.cacheStore.set(key, value, ttl);
+
+      // Track the user's keys so invalidateUser works against any store
+      const indexKey = this.userIndexKey(address);
+      if (this.cacheStore.addToSet) {
+        await this.cacheStore.addToSet(indexKey, key, this.cacheTTL);
+        return;
       }
-      throw new VulturSSOError('NETWORK_ERROR', `Get user roles failed: ${response.status}`);
+      // Stores without sets get a read-then-write index: concurrent writers
+      // can lose each other's keys, so invalidation is best-effort there
+      const keys = (await this.cacheStore.get<string[]>(indexKey)) ?? [];
+      if (!keys.includes(key)) {
+        await this.cacheStore.set(indexKey, [...keys, key], this.cacheTTL);
+      }
+    } catch (error) {
+      // Ignore cache write failures; the lookup result is still valid
     }
+  }
 
-    return response.json();
+  /**
+   * Verify a token against the JWKS, waiting for a key refresh no longer than
+   * the request timeout
+   */
+  private async verifyLocally(token: string, options: RequestOptions): Promise<JwtClaims | null> {
+    const timeout = options.timeout ?? this.timeout;
+    const requestSignal = createRequestSignal(options.signal, timeout);
+    try {
+      return await this.jwtVerifier!.verify(token, { signal: requestSignal.signal });
+    } catch (error) {
+      if (requestSignal.timedOut()) {
+        throw new VulturSSOError('TIMEOUT', `Fetching the JWKS from vultur-ident-api timed out after ${timeout}ms`, error);
+      }
+      throw error;
+    } finally {
+      requestSignal.cleanup();
+    }
   }
 
   /**
-   * Get user information by address (admin only)
+   * Validate a JWT token and get user information.
+   * With jwtVerification configured the token is verified locally and only
+   * falls back to /me when it cannot be verified against the JWKS.
    */
-  async getUserInfo(address: string, token: string): Promise<UserInfo> {
-    const response = await fetch(`${this.baseUrl}/users/${encodeURIComponent(address)}`, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+  async validateToken(token: string, options: RequestOptions = {}): Promise<UserInfo> {
+    const cacheKey = this.cacheTTL > 0 ? `token:${await hashToken(token)}` : null;
+    if (cacheKey) {
+      const cached = await this.readCache<UserInfo>(cacheKey);
+      if (cached !== undefined) {
+        return cached;
+      }
+    }
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        throw new VulturSSOError('UNAUTHORIZED', 'Invalid or expired token');
+    if (this.jwtVerifier) {
+      const claims = await this.verifyLocally(token, options);
+      if (claims) {
+        const user = this.jwtVerifier.toUserInfo(claims);
+        if (cacheKey) {
+          await this.writeCache(cacheKey, user, user.eth_address, this.tokenCacheTTL(claims.exp));
+        }
+        return user;
       }
-      if (response.status === 403) {
-        throw new VulturSSOError('FORBIDDEN', 'Admin access required');
+
+      if (!this.fallbackToRemote) {
+        throw new VulturSSOError('UNAUTHORIZED', 'Token could not be verified');
       }
-      if (response.status === 404) {
-        throw new VulturSSOError('NOT_FOUND', 'User not found');
+    }
+
+    const response = await this.request('/me', token, options);
+
+    if (!response.ok) {
+      throw createResponseError(response, 'Token validation failed');
+    }
+
+    const user = await readValidatedResponse<UserInfo>(
+      response,
+      validateUserInfo,
+      'Token validation failed',
+      this.responseValidation
+    );
+    if (cacheKey) {
+      let exp: unknown;
+      try {
+        exp = decodeJwt(token).claims.exp;
+      } catch (error) {
+        // Opaque token: only ident-api knows its lifetime
       }
-      throw new VulturSSOError('NETWORK_ERROR', `Get user info failed: ${response.status}`);
+      await this.writeCache(cacheKey, user, user.eth_address, this.tokenCacheTTL(exp));
     }
+    return user;
+  }
 
-    return response.json();
+  /**
+   * Get user roles by address
+   */
+  async getUserRoles(address: string, token: string, options: RequestOptions = {}): Promise<UserRole[]> {
+    const cacheKey = `roles:${address.toLowerCase()}`;
+    const cached = await this.readCache<UserRole[]>(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const response = await this.request(`/users/${encodeURIComponent(address)}/roles`, token, options);
+
+    if (!response.ok) {
+      throw createResponseError(response, 'Get user roles failed', { 404: 'User not found' });
+    }
+
+    const roles = await readValidatedResponse<UserRole[]>(
+      response,
+      validateUserRoles,
+      'Get user roles failed',
+      this.responseValidation
+    );
+    await this.writeCache(cacheKey, roles, address);
+    return roles;
+  }
+
+  /**
+   * Get user information by address (admin only)
+   */
+  async getUserInfo(address: string, token: string, options: RequestOptions = {}): Promise<UserInfo> {
+    const response = await this.request(`/users/${encodeURIComponent(address)}`, token, options);
+
+    if (!response.ok) {
+      throw createResponseError(response, 'Get user info failed', {
+        403: 'Admin access required',
+        404: 'User not found',
+      });
+    }
+
+    return readValidatedResponse<UserInfo>(response, validateUserInfo, 'Get user info failed', this.responseValidation);
   }
 
   /**
@@ -118,28 +408,35 @@ export class VulturIdentServerClient {
     address: string, 
     applicationName: string, 
     permissionScope: string, 
-    token: string
+    token: string,
+    options: RequestOptions = {}
   ): Promise<boolean> {
-    const response = await fetch(`${this.baseUrl}/users/${encodeURIComponent(address)}/permissions/${applicationName}/${permissionScope}`, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+    const cacheKey = `permission:${address.toLowerCase()}:${applicationName}:${permissionScope}`;
+    const cached = await this.readCache<boolean>(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const response = await this.request(`/users/${encodeURIComponent(address)}/permissions/${applicationName}/${permissionScope}`, token, options);
 
     if (!response.ok) {
-      if (response.status === 401) {
-        throw new VulturSSOError('UNAUTHORIZED', 'Invalid or expired token');
-      }
       if (response.status === 404) {
         // Permission not found - assume denied
+        await this.writeCache(cacheKey, false, address);
         return false;
       }
-      throw new VulturSSOError('NETWORK_ERROR', `Permission check failed: ${response.status}`);
+      throw createResponseError(response, 'Permission check failed');
     }
 
-    const result = await response.json();
-    return result.allowed === true;
+    const result = await readValidatedResponse<{ allowed?: boolean }>(
+      response,
+      validatePermissionCheck,
+      'Permission check failed',
+      this.responseValidation
+    );
+    const allowed = result.allowed === true;
+    await this.writeCache(cacheKey, allowed, address);
+    return allowed;
   }
 }
 
@@ -148,60 +445,152 @@ export class VulturIdentServerClient {
  */
 export function createAuthMiddleware(client: VulturIdentServerClient) {
   return async function validateAuth(req: Request | { headers: Headers }): Promise<UserInfo> {
-    const headers = 'headers' in req ? req.headers : new Headers();
-    const authHeader = headers.get('Authorization');
-    
-    if (!authHeader) {
-      throw new VulturSSOError('UNAUTHORIZED', 'No authorization header provided');
-    }
+    const sources = client.getTokenSources();
+    const token = extractToken(req, sources);
 
-    if (!authHeader.startsWith('Bearer ')) {
-      throw new VulturSSOError('UNAUTHORIZED', 'Invalid authorization header format');
+    if (!token) {
+      throw new VulturSSOError('UNAUTHORIZED', describeMissingToken(req, sources));
     }
 
-    const token = authHeader.slice(7); // Remove 'Bearer ' prefix
     return await client.validateToken(token);
   };
 }
 
 /**
- * Helper to extract JWT from various Next.js request formats
+ * Helper to extract JWT from various Next.js request formats.
+ * Looks at `sources` in order (default: Bearer Authorization header).
  */
-export function extractJWT(req: any): string | null {
-  // Next.js App Router (NextRequest)
-  if (req.headers && typeof req.headers.get === 'function') {
-    const authHeader = req.headers.get('Authorization');
-    return authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
-  }
-  
-  // Next.js Pages Router (NextApiRequest)
-  if (req.headers && req.headers.authorization) {
-    const authHeader = req.headers.authorization;
-    return authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
-  }
-
-  // Standard Request object
-  if (req instanceof Request) {
-    const authHeader = req.headers.get('Authorization');
-    return authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
-  }
-
-  return null;
+export function extractJWT(req: any, sources: TokenSource[] = DEFAULT_TOKEN_SOURCES): string | null {
+  return extractToken(req, sources);
 }
 
 /**
- * Permission checking utilities for server-side
+ * Options for ServerPermissionChecker
+ */
+export type ServerPermissionCheckerOptions<S extends string = string> = {
+  /** Optional: resolve permissions locally from the user's roles, like the React hooks, instead of asking vultur-ident-api per scope */
+  resolver?: PermissionResolver<S>;
+};
+
+/**
+ * Permission checking utilities for server-side.
+ * Scope ids are typed by the resolver, or explicitly with
+ * `new ServerPermissionChecker<ScopeIdOf<typeof permissionConfig>>(...)`.
  */
-export class ServerPermissionChecker {
+export class ServerPermissionChecker<S extends string = string> {
+  private resolver: PermissionResolver<S> | null;
+
   constructor(
     private client: VulturIdentServerClient,
-    private applicationName: string
-  ) {}
+    private applicationName: string,
+    options: ServerPermissionCheckerOptions<S> = {}
+  ) {
+    this.resolver = options.resolver ?? null;
+  }
 
   /**
-   * Check if user has permission
+   * Resolve all of a user's permissions locally with the configured resolver.
+   * User info and roles come from the client, so repeated checks hit its cache.
    */
-  async hasPermission(address: string, permissionScope: string, token: string): Promise<boolean> {
+  async resolvePermissions(address: string, token: string): Promise<Permission[]> {
+    return (await this.resolveUser(address, token)).permissions;
+  }
+
+  private async resolveUser(
+    address: string,
+    token: string,
+    validatedUser?: UserInfo
+  ): Promise<{ user: UserInfo; permissions: Permission[] }> {
+    if (!this.resolver) {
+      throw new VulturSSOError('CONFIG_ERROR', 'ServerPermissionChecker has no permission resolver');
+    }
+
+    const tokenUser = validatedUser ?? await this.client.validateToken(token);
+    const user = tokenUser.eth_address.toLowerCase() === address.toLowerCase()
+      ? tokenUser
+      : await this.client.getUserInfo(address, token);
+
+    let roles: UserRole[];
+    try {
+      roles = await this.client.getUserRoles(address, token);
+    } catch (error) {
+      if (error instanceof VulturSSOError && error.code === 'NOT_FOUND') {
+        roles = [];
+      } else {
+        throw error;
+      }
+    }
+
+    return { user, permissions: this.resolver.resolveUserPermissions(user, roles) };
+  }
+
+  /**
+   * Evaluate a scope against resolved permissions with the resolver's combining algorithm and implications
+   */
+  private isAllowed(permissions: Permission[], scope: string, context?: PermissionEvaluationContext): boolean {
+    return hasPermissionEffect(
+      permissions,
+      scope,
+      'allow',
+      this.resolver?.combiningAlgorithm,
+      this.resolver?.implications,
+      context
+    );
+  }
+
+  /**
+   * Resolve permissions and the condition context for a check.
+   * Users vultur-ident-api does not know get no permissions.
+   */
+  private async resolveCheck(
+    address: string,
+    token: string,
+    options: PermissionCheckOptions,
+    validatedUser?: UserInfo
+  ): Promise<{ permissions: Permission[]; context?: PermissionEvaluationContext }> {
+    try {
+      const { user, permissions } = await this.resolveUser(address, token, validatedUser);
+      return { permissions, context: { user, resource: options.resource, resourceId: options.resourceId } };
+    } catch (error) {
+      if (error instanceof VulturSSOError && error.code === 'NOT_FOUND') {
+        return { permissions: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Conditions and instance grants need the user's permissions locally, so resource checks require a resolver
+   */
+  private requireResolverForResource(options: PermissionCheckOptions): void {
+    if ((options.resource !== undefined || options.resourceId !== undefined) && !this.resolver) {
+      throw new VulturSSOError(
+        'CONFIG_ERROR',
+        'ServerPermissionChecker needs a permission resolver to check permissions on a resource'
+      );
+    }
+  }
+
+  /**
+   * Check if user has permission, optionally on a specific resource
+   *
+   * ```typescript
+   * await checker.hasPermission(address, 'fleet:write', token, { resource: fleet });
+   * ```
+   */
+  async hasPermission(
+    address: string,
+    permissionScope: S,
+    token: string,
+    options: PermissionCheckOptions = {}
+  ): Promise<boolean> {
+    this.requireResolverForResource(options);
+    if (this.resolver) {
+      const { permissions, context } = await this.resolveCheck(address, token, options);
+      return this.isAllowed(permissions, permissionScope, context);
+    }
+
+    // The client caches the lookup, indexed for invalidateUser
     try {
       return await this.client.checkUserPermission(address, this.applicationName, permissionScope, token);
     } catch (error) {
@@ -212,10 +601,39 @@ export class ServerPermissionChecker {
     }
   }
 
+  /**
+   * Check a permission for the user a token was already validated as, e.g.
+   * by a route guard, without validating the token again
+   */
+  async checkForUser(
+    user: UserInfo,
+    permissionScope: S,
+    token: string,
+    options: PermissionCheckOptions = {}
+  ): Promise<boolean> {
+    this.requireResolverForResource(options);
+    if (this.resolver) {
+      const { permissions, context } = await this.resolveCheck(user.eth_address, token, options, user);
+      return this.isAllowed(permissions, permissionScope, context);
+    }
+    return this.hasPermission(user.eth_address, permissionScope, token);
+  }
+
   /**
    * Check if user has any of the specified permissions
    */
-  async hasAnyPermission(address: string, permissionScopes: string[], token: string): Promise<boolean> {
+  async hasAnyPermission(
+    address: string,
+    permissionScopes: S[],
+    token: string,
+    options: PermissionCheckOptions = {}
+  ): Promise<boolean> {
+    this.requireResolverForResource(options);
+    if (this.resolver) {
+      const { permissions, context } = await this.resolveCheck(address, token, options);
+      return permissionScopes.some(scope => this.isAllowed(permissions, scope, context));
+    }
+
     for (const scope of permissionScopes) {
       if (await this.hasPermission(address, scope, token)) {
         return true;
@@ -227,7 +645,18 @@ export class ServerPermissionChecker {
   /**
    * Check if user has all of the specified permissions
    */
-  async hasAllPermissions(address: string, permissionScopes: string[], token: string): Promise<boolean> {
+  async hasAllPermissions(
+    address: string,
+    permissionScopes: S[],
+    token: string,
+    options: PermissionCheckOptions = {}
+  ): Promise<boolean> {
+    this.requireResolverForResource(options);
+    if (this.resolver) {
+      const { permissions, context } = await this.resolveCheck(address, token, options);
+      return permissionScopes.every(scope => this.isAllowed(permissions, scope, context));
+    }
+
     for (const scope of permissionScopes) {
       if (!(await this.hasPermission(address, scope, token))) {
         return false;
@@ -236,6 +665,39 @@ export class ServerPermissionChecker {
     return true;
   }
 
+  /**
+   * Filter resources down to the ones the user holds a permission on.
+   * Each resource is checked with its id and attributes, so instance grants
+   * and conditions apply. Requires a resolver.
+   *
+   * ```typescript
+   * const manageable = await checker.filterPermitted(address, 'warehouse:write', warehouses, token);
+   * ```
+   */
+  async filterPermitted<T extends object>(
+    address: string,
+    permissionScope: S,
+    resources: T[],
+    token: string,
+    resourceId: ResourceIdGetter<T> = getResourceId
+  ): Promise<T[]> {
+    if (!this.resolver) {
+      throw new VulturSSOError('CONFIG_ERROR', 'ServerPermissionChecker needs a permission resolver to filter resources');
+    }
+
+    const { permissions, context } = await this.resolveCheck(address, token, {});
+    if (!context) {
+      return [];
+    }
+    return resources.filter(resource =>
+      this.isAllowed(permissions, permissionScope, {
+        ...context,
+        resource: resource as Record<string, unknown>,
+        resourceId: resourceId(resource) ?? undefined,
+      })
+    );
+  }
+
   /**
    * Check if user has a specific role
    */
@@ -272,7 +734,7 @@ export function withAuth<T extends any[], R>(
   handler: (user: UserInfo, ...args: T) => Promise<R>
 ) {
   return async (req: any, ...args: T): Promise<R> => {
-    const token = extractJWT(req);
+    const token = extractJWT(req, client.getTokenSources());
     if (!token) {
       throw new VulturSSOError('UNAUTHORIZED', 'No JWT token provided');
     }
@@ -285,25 +747,26 @@ export function withAuth<T extends any[], R>(
 /**
  * Higher-order function to create permission-protected API route handlers
  */
-export function withPermission<T extends any[], R>(
+export function withPermission<T extends any[], R, S extends string = string>(
   client: VulturIdentServerClient,
   applicationName: string,
-  requiredPermission: string,
-  handler: (user: UserInfo, ...args: T) => Promise<R>
+  requiredPermission: CheckedScopeId<S>,
+  handler: (user: UserInfo, ...args: T) => Promise<R>,
+  options: ServerPermissionCheckerOptions<S> = {}
 ) {
-  const checker = new ServerPermissionChecker(client, applicationName);
+  const checker = new ServerPermissionChecker(client, applicationName, options);
   
   return async (req: any, ...args: T): Promise<R> => {
-    const token = extractJWT(req);
+    const token = extractJWT(req, client.getTokenSources());
     if (!token) {
       throw new VulturSSOError('UNAUTHORIZED', 'No JWT token provided');
     }
 
     const user = await client.validateToken(token);
-    const hasPermission = await checker.hasPermission(user.eth_address, requiredPermission, token);
+    const hasPermission = await checker.checkForUser(user, requiredPermission, token);
     
     if (!hasPermission) {
-      throw new VulturSSOError('FORBIDDEN', `Permission '${requiredPermission}' required`);
+      throw new VulturSSOError('FORBIDDEN', `Permission '${requiredPermission}' required`, { requiredPermission });
     }
 
     return handler(user, ...args);
@@ -0,0 +1,230 @@
+/**
+ * Signed .well-known/vultur-permissions documents
+ * The well-known handlers can sign the permission configuration as a detached
+ * JWS (RFC 7515 Appendix F), so consumers such as vultur-ident-api can check it
+ * was published by the holder of the application's signing key
+ */
+
+import { VulturPermissionConfig } from './types';
+import { VulturSSOError, createResponseError } from './errors';
+import { DEFAULT_ALGORITHMS, JwksDocument, base64UrlDecode, base64UrlEncode, getAlgorithmParams, selectKey } from './jwt';
+import { VulturFetch } from './transport';
+
+/**
+ * Response header carrying the detached JWS of the permission configuration
+ */
+export const PERMISSION_SIGNATURE_HEADER = 'X-Vultur-Signature';
+
+/**
+ * Options for signing permission configurations
+ */
+export type PermissionConfigSigningOptions = {
+  /** Private key, as a CryptoKey or a private JWK */
+  privateKey: CryptoKey | JsonWebKey;
+  /** Optional: JWS algorithm (default: the JWK's `alg`, else ES256) */
+  algorithm?: string;
+  /** Optional: key id published as `kid`, so consumers can pick the public key (default: the JWK's `kid`) */
+  keyId?: string;
+  /** Optional: URL of the JWKS holding the public key, published as `jku` */
+  jwksUrl?: string;
+};
+
+/**
+ * Options for verifySignedPermissionConfig. Keys come from `jwks` or
+ * `jwksUrl`; the `jku` in the signature is never trusted.
+ */
+export type SignedPermissionConfigVerificationOptions = {
+  /** Optional: trusted public keys */
+  jwks?: JwksDocument;
+  /** Optional: URL of the JWKS holding the trusted public keys */
+  jwksUrl?: string;
+  /** Optional: accepted signing algorithms (default: RS256, RS384, RS512, PS256, PS384, PS512, ES256, ES384, ES512) */
+  algorithms?: string[];
+  /** Optional: fetch implementation for `jwksUrl` (default: the global fetch) */
+  fetch?: VulturFetch;
+};
+
+type JwsHeader = {
+  alg: string;
+  kid?: string;
+  jku?: string;
+};
+
+/**
+ * JSON with object keys sorted, so equal configurations serialize, hash and
+ * sign equally regardless of the order their properties were set in
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    typeof item === 'object' && item !== null && !Array.isArray(item)
+      ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+      : item
+  );
+}
+
+function signingInput(encodedHeader: string, config: VulturPermissionConfig): Uint8Array {
+  return new TextEncoder().encode(`${encodedHeader}.${base64UrlEncode(canonicalJson(config))}`);
+}
+
+function invalidSignature(message: string, details?: unknown): VulturSSOError {
+  return new VulturSSOError('INVALID_RESPONSE', message, details);
+}
+
+/**
+ * Create a function signing permission configurations with one key. The key
+ * is imported once, on first use.
+ */
+export function createPermissionConfigSigner(
+  options: PermissionConfigSigningOptions
+): (config: VulturPermissionConfig) => Promise<string> {
+  const jwk = 'kty' in options.privateKey ? (options.privateKey as JsonWebKey & { kid?: string }) : null;
+  const alg = options.algorithm ?? jwk?.alg ?? 'ES256';
+  const params = getAlgorithmParams(alg);
+  if (!params) {
+    throw new VulturSSOError('CONFIG_ERROR', `Unsupported permission config signing algorithm '${alg}'`);
+  }
+
+  const header: JwsHeader = {
+    alg,
+    ...((options.keyId ?? jwk?.kid) && { kid: options.keyId ?? jwk?.kid }),
+    ...(options.jwksUrl && { jku: options.jwksUrl }),
+  };
+  const encodedHeader = base64UrlEncode(JSON.stringify(header));
+
+  let key: Promise<CryptoKey> | null = null;
+  const getKey = () => {
+    if (!key) {
+      key = jwk
+        ? globalThis.crypto.subtle.importKey('jwk', jwk, params.importParams, false, ['sign'])
+        : Promise.resolve(options.privateKey as CryptoKey);
+      key.catch(() => {
+        key = null;
+      });
+    }
+    return key;
+  };
+
+  return async config => {
+    const signature = await globalThis.crypto.subtle.sign(
+      params.signatureParams,
+      await getKey(),
+      signingInput(encodedHeader, config) as BufferSource
+    );
+    // Detached payload: header..signature
+    return `${encodedHeader}..${base64UrlEncode(new Uint8Array(signature))}`;
+  };
+}
+
+/**
+ * Sign a permission configuration as a detached JWS (`header..signature`).
+ * The payload is the configuration's canonical JSON.
+ */
+export function signPermissionConfig(
+  config: VulturPermissionConfig,
+  options: PermissionConfigSigningOptions
+): Promise<string> {
+  return createPermissionConfigSigner(options)(config);
+}
+
+async function loadKeys(options: SignedPermissionConfigVerificationOptions): Promise<JsonWebKey[]> {
+  if (options.jwks) {
+    if (!Array.isArray(options.jwks.keys)) {
+      throw new VulturSSOError('CONFIG_ERROR', 'verifySignedPermissionConfig jwks must have a keys array');
+    }
+    return options.jwks.keys;
+  }
+  if (!options.jwksUrl) {
+    throw new VulturSSOError('CONFIG_ERROR', 'verifySignedPermissionConfig needs jwks or jwksUrl');
+  }
+
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(options.jwksUrl, { headers: { 'Accept': 'application/json' } });
+  } catch (error) {
+    throw new VulturSSOError('NETWORK_ERROR', `Could not fetch ${options.jwksUrl}`, error);
+  }
+  if (!response.ok) {
+    throw createResponseError(response, 'Fetch permission config signing keys failed');
+  }
+
+  const jwks: JwksDocument = await response.json().catch(() => null);
+  if (!Array.isArray(jwks?.keys)) {
+    throw invalidSignature(`${options.jwksUrl} is not a JWKS document`);
+  }
+  return jwks.keys;
+}
+
+/**
+ * Verify the detached JWS published with a permission configuration, e.g.
+ * the X-Vultur-Signature header of a .well-known/vultur-permissions response.
+ * Returns the configuration, or throws INVALID_RESPONSE when the signature is
+ * missing, malformed, made with an unknown key or does not match.
+ *
+ * ```typescript
+ * const response = await fetch(getWellKnownUrl(appUrl));
+ * const config = await verifySignedPermissionConfig(
+ *   await response.json(),
+ *   response.headers.get(PERMISSION_SIGNATURE_HEADER),
+ *   { jwksUrl: 'https://fleet.example.com/.well-known/jwks.json' }
+ * );
+ * ```
+ */
+export async function verifySignedPermissionConfig(
+  config: VulturPermissionConfig,
+  signature: string | null | undefined,
+  options: SignedPermissionConfigVerificationOptions
+): Promise<VulturPermissionConfig> {
+  if (!signature) {
+    throw invalidSignature('Permission configuration is not signed');
+  }
+
+  const [encodedHeader, payload, encodedSignature, ...rest] = signature.split('.');
+  if (!encodedHeader || payload !== '' || !encodedSignature || rest.length > 0) {
+    throw invalidSignature('Permission configuration signature is not a detached JWS');
+  }
+
+  let header: JwsHeader;
+  let signatureBytes: Uint8Array;
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedHeader)));
+    if (typeof header !== 'object' || header === null || Array.isArray(header)) {
+      throw new TypeError('JWS header is not a JSON object');
+    }
+    signatureBytes = base64UrlDecode(encodedSignature);
+  } catch (error) {
+    throw invalidSignature('Permission configuration signature is not a detached JWS', error);
+  }
+
+  const algorithms = options.algorithms ?? DEFAULT_ALGORITHMS;
+  const params = typeof header.alg === 'string' && algorithms.includes(header.alg) ? getAlgorithmParams(header.alg) : null;
+  if (!params) {
+    throw invalidSignature(`Permission configuration signing algorithm '${header.alg}' is not accepted`);
+  }
+
+  const jwk = selectKey(await loadKeys(options), header.kid, header.alg, params.kty);
+  if (!jwk) {
+    throw invalidSignature(
+      header.kid
+        ? `No trusted key '${header.kid}' for the permission configuration signature`
+        : 'No trusted key for the permission configuration signature'
+    );
+  }
+
+  let valid: boolean;
+  try {
+    const key = await globalThis.crypto.subtle.importKey('jwk', jwk, params.importParams, false, ['verify']);
+    valid = await globalThis.crypto.subtle.verify(
+      params.signatureParams,
+      key,
+      signatureBytes as BufferSource,
+      signingInput(encodedHeader, config) as BufferSource
+    );
+  } catch (error) {
+    throw invalidSignature('Could not verify the permission configuration signature', error);
+  }
+
+  if (!valid) {
+    throw invalidSignature('Permission configuration signature does not match');
+  }
+  return config;
+}
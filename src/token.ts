@@ -0,0 +1,159 @@
+/**
+ * Token extraction from incoming requests
+ * Supports App Router (NextRequest), Pages Router (NextApiRequest) and standard Request objects
+ */
+
+/**
+ * Where to look for the JWT on an incoming request
+ */
+export type TokenSource =
+  | {
+      type: 'header';
+      /** Header name (default: 'Authorization') */
+      name?: string;
+      /** Auth scheme preceding the token, or null for the raw header value (default: 'Bearer') */
+      scheme?: string | null;
+    }
+  | {
+      type: 'cookie';
+      /** Cookie name */
+      name: string;
+    }
+  | {
+      type: 'query';
+      /** Query parameter name */
+      name: string;
+    }
+  | {
+      type: 'custom';
+      /** Return the token, or null when the request does not carry one */
+      extract: (req: any) => string | null | undefined;
+    };
+
+/**
+ * Sources used when none are configured: `Authorization: Bearer <token>`
+ */
+export const DEFAULT_TOKEN_SOURCES: TokenSource[] = [{ type: 'header' }];
+
+function readHeader(req: any, name: string): string | null {
+  if (!req?.headers) {
+    return null;
+  }
+
+  // App Router (NextRequest) and standard Request objects
+  if (typeof req.headers.get === 'function') {
+    return req.headers.get(name) ?? null;
+  }
+
+  // Pages Router (NextApiRequest) lower-cases header names
+  const value = req.headers[name.toLowerCase()] ?? req.headers[name];
+  if (Array.isArray(value)) {
+    return value[0] ?? null;
+  }
+  return typeof value === 'string' ? value : null;
+}
+
+function parseCookieHeader(header: string, name: string): string | null {
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      const value = part.slice(separator + 1).trim();
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+function readCookie(req: any, name: string): string | null {
+  const cookies = req?.cookies;
+
+  // App Router: request.cookies or the result of cookies() from next/headers
+  if (cookies && typeof cookies.get === 'function') {
+    const cookie = cookies.get(name);
+    return (typeof cookie === 'string' ? cookie : cookie?.value) ?? null;
+  }
+
+  // Pages Router: req.cookies is a plain object
+  if (cookies && typeof cookies[name] === 'string') {
+    return cookies[name];
+  }
+
+  const header = readHeader(req, 'Cookie');
+  return header ? parseCookieHeader(header, name) : null;
+}
+
+function readQuery(req: any, name: string): string | null {
+  // App Router
+  if (req?.nextUrl?.searchParams) {
+    return req.nextUrl.searchParams.get(name);
+  }
+
+  // Pages Router
+  if (req?.query && typeof req.query === 'object') {
+    const value = req.query[name];
+    return (Array.isArray(value) ? value[0] : value) ?? null;
+  }
+
+  if (typeof req?.url === 'string') {
+    try {
+      return new URL(req.url, 'http://localhost').searchParams.get(name);
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+function readFromSource(req: any, source: TokenSource): string | null {
+  switch (source.type) {
+    case 'header': {
+      const value = readHeader(req, source.name ?? 'Authorization');
+      const scheme = source.scheme === undefined ? 'Bearer' : source.scheme;
+      if (!value || scheme === null) {
+        return value || null;
+      }
+      const prefix = `${scheme} `;
+      return value.slice(0, prefix.length).toLowerCase() === prefix.toLowerCase()
+        ? value.slice(prefix.length).trim() || null
+        : null;
+    }
+    case 'cookie':
+      return readCookie(req, source.name);
+    case 'query':
+      return readQuery(req, source.name);
+    case 'custom':
+      return source.extract(req) || null;
+  }
+}
+
+/**
+ * Extract the token from the first source that carries one
+ */
+export function extractToken(req: any, sources: TokenSource[] = DEFAULT_TOKEN_SOURCES): string | null {
+  for (const source of sources) {
+    const token = readFromSource(req, source);
+    if (token) {
+      return token;
+    }
+  }
+  return null;
+}
+
+/**
+ * Explain why no token could be extracted, for UNAUTHORIZED errors
+ */
+export function describeMissingToken(req: any, sources: TokenSource[] = DEFAULT_TOKEN_SOURCES): string {
+  for (const source of sources) {
+    if (source.type === 'header' && readHeader(req, source.name ?? 'Authorization')) {
+      return `Invalid ${(source.name ?? 'Authorization').toLowerCase()} header format`;
+    }
+  }
+  return sources.every(source => source.type === 'header')
+    ? 'No authorization header provided'
+    : 'No token provided';
+}
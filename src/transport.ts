@@ -0,0 +1,81 @@
+/**
+ * HTTP transport shared by the server and browser ident-api clients
+ */
+
+import { VERSION } from './version';
+
+/**
+ * Fetch implementation used to reach vultur-ident-api
+ */
+export type VulturFetch = (input: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Outgoing request as seen by interceptors
+ */
+export type VulturRequest = {
+  url: string;
+  init: RequestInit & { headers: Headers };
+};
+
+/**
+ * Called before every request; may mutate the request or return a replacement
+ */
+export type RequestInterceptor = (request: VulturRequest) => void | VulturRequest | Promise<void | VulturRequest>;
+
+/**
+ * Called after every response; may return a replacement response
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: VulturRequest
+) => void | Response | Promise<void | Response>;
+
+/**
+ * Transport options accepted by ServerConfig and VulturSSOClientConfig
+ */
+export type TransportConfig = {
+  /** Optional: fetch implementation (default: the global fetch) */
+  fetch?: VulturFetch;
+  /** Optional: request interceptor, e.g. to add tracing headers */
+  onRequest?: RequestInterceptor;
+  /** Optional: response interceptor, e.g. for logging or metrics */
+  onResponse?: ResponseInterceptor;
+};
+
+/**
+ * Identifier sent with every request in the X-Vultur-Client header
+ */
+export const CLIENT_IDENTIFIER = `vultur-sso-client/${VERSION}`;
+
+/**
+ * Build a fetch function that adds identifying headers and runs interceptors
+ */
+export function createTransport(
+  config: TransportConfig,
+  options: { applicationName?: string; userAgent?: boolean } = {}
+): VulturFetch {
+  // Resolve the global fetch per call so it can be replaced after construction
+  const fetchImpl: VulturFetch = config.fetch ?? ((input, init) => fetch(input, init));
+
+  return async (url, init) => {
+    const headers = new Headers(init.headers);
+    headers.set('X-Vultur-Client', CLIENT_IDENTIFIER);
+    if (options.applicationName) {
+      headers.set('X-Vultur-Application', options.applicationName);
+    }
+    if (options.userAgent) {
+      headers.set('User-Agent', CLIENT_IDENTIFIER);
+    }
+
+    let request: VulturRequest = { url, init: { ...init, headers } };
+    if (config.onRequest) {
+      request = (await config.onRequest(request)) ?? request;
+    }
+
+    let response = await fetchImpl(request.url, request.init);
+    if (config.onResponse) {
+      response = (await config.onResponse(response, request)) ?? response;
+    }
+    return response;
+  };
+}
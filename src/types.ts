@@ -1,11 +1,13 @@
-import { PermissionResolver } from "./hooks";
+import { PermissionResolver } from "./permissions";
+import { RequestInterceptor, ResponseInterceptor, VulturFetch } from "./transport";
+import { PermissionConfigValidationOptions, ValidationMode } from "./validation";
 
 /**
  * Permission scope definition
  */
-export type PermissionScope = {
+export type PermissionScope<Id extends string = string> = {
   /** Unique identifier for the permission scope */
-  id: string;
+  id: Id;
   /** Human-readable name */
   name: string;
   /** Description of what this permission grants */
@@ -14,6 +16,8 @@ export type PermissionScope = {
   resource: string;
   /** Action this permission allows (e.g., 'read', 'write', 'delete', 'admin') */
   action: string;
+  /** Scope ids this scope also grants (e.g., 'fleet:admin' implies 'fleet:write') */
+  implies?: string[];
 };
 
 /**
@@ -27,24 +31,44 @@ export type PermissionEffect = 'allow' | 'deny';
 export type Permission = {
   scope: PermissionScope;
   effect: PermissionEffect;
+  /** Conditions that must all hold for this permission to apply (e.g., 'resource.tribe_id == user.tribe_id') */
+  conditions?: string[];
+  /** Resource instance this permission is limited to (e.g., '42' for warehouse #42) */
+  resourceId?: string;
 };
 
 /**
- * Application permission configuration
+ * Application permission configuration.
+ * `S` is the union of scope ids, inferred by VulturPermissionConfigBuilder.
  */
-export type VulturPermissionConfig = {
+export type VulturPermissionConfig<S extends string = string> = {
   /** Application name */
   applicationName: string;
   /** Application version */
   version: string;
   /** List of permission scopes this application defines */
-  permissions: PermissionScope[];
+  permissions: PermissionScope<S>[];
   /** Default permissions for unauthenticated users */
   defaultPermissions?: Permission[];
   /** Timestamp when configuration was last updated */
   lastUpdated: string;
 };
 
+/**
+ * Union of the scope ids declared by a permission configuration
+ *
+ * ```typescript
+ * type AppScope = ScopeIdOf<typeof permissionConfig>; // 'fleet:read' | 'fleet:write' | ...
+ * ```
+ */
+export type ScopeIdOf<C extends VulturPermissionConfig<string>> = C['permissions'][number]['id'];
+
+/**
+ * Scope id parameter that does not take part in inference, so a typo is
+ * reported instead of widening the inferred scope union (NoInfer before TS 5.4)
+ */
+export type CheckedScopeId<S extends string> = [S][S extends any ? 0 : never];
+
 /**
  * User role from vultur-ident-api
  */
@@ -99,9 +123,21 @@ export type VulturSSOClientConfig = {
   enableCache?: boolean;
   /** Cache duration in milliseconds (default: 5 minutes) */
   cacheDuration?: number;
+  /** Timeout for requests to vultur-ident-api in milliseconds (default: 10 seconds, 0 disables) */
+  requestTimeout?: number;
+  /** Fetch implementation for requests to vultur-ident-api (default: the global fetch) */
+  fetch?: VulturFetch;
+  /** Called before every request to vultur-ident-api */
+  onRequest?: RequestInterceptor;
+  /** Called after every response from vultur-ident-api */
+  onResponse?: ResponseInterceptor;
+  /** How strictly ident-api responses are validated (default: 'strict') */
+  responseValidation?: ValidationMode;
+  /** Whether permissionConfig warnings fail initialization and where they are reported (default: warnings are logged) */
+  permissionConfigValidation?: PermissionConfigValidationOptions;
 };
 
-// VulturSSOError is now defined as a class in server.ts
+// VulturSSOError is now defined as a class in errors.ts
 
 /**
  * Hook options for useVulturPermissions
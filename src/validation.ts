@@ -0,0 +1,471 @@
+/**
+ * Runtime validation of data received from vultur-ident-api
+ * Catches schema drift at the boundary instead of deep inside permission checks
+ */
+
+import type { Permission, PermissionScope, UserInfo, UserRole, VulturPermissionConfig } from './types';
+import { VulturSSOError, VulturSSOErrorOptions, readJsonResponse } from './errors';
+import { buildImplicationGraph } from './permissions';
+
+/**
+ * How strictly responses are checked:
+ * - 'strict' checks every declared field
+ * - 'lenient' only checks the fields vultur-sso-client relies on and passes the rest through
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * First field that does not match its declared type
+ */
+export type ValidationIssue = {
+  /** Path to the field, e.g. `roles[0]` or `permissions[2].id` */
+  path: string;
+  /** Description of the expected type */
+  expected: string;
+};
+
+type FieldRule = {
+  expected: string;
+  check: (value: unknown) => boolean;
+  /** Whether the field may be missing */
+  optional?: boolean;
+  /** Whether the field is also checked in lenient mode */
+  essential?: boolean;
+};
+
+type Validator = (value: unknown, mode: ValidationMode, path: string) => ValidationIssue | null;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function objectValidator(rules: Record<string, FieldRule>, nested: Record<string, Validator> = {}): Validator {
+  return (value, mode, path) => {
+    if (!isRecord(value)) {
+      return { path: path || '(root)', expected: 'an object' };
+    }
+
+    for (const [key, rule] of Object.entries(rules)) {
+      if (mode === 'lenient' && !rule.essential) {
+        continue;
+      }
+      const field = value[key];
+      if (field === undefined && rule.optional) {
+        continue;
+      }
+      if (!rule.check(field)) {
+        return { path: joinPath(path, key), expected: rule.expected };
+      }
+    }
+
+    for (const [key, validate] of Object.entries(nested)) {
+      if (value[key] === undefined) {
+        continue;
+      }
+      const issue = validate(value[key], mode, joinPath(path, key));
+      if (issue) {
+        return issue;
+      }
+    }
+
+    return null;
+  };
+}
+
+function arrayValidator(item: Validator): Validator {
+  return (value, mode, path) => {
+    if (!Array.isArray(value)) {
+      return { path: path || '(root)', expected: 'an array' };
+    }
+    for (let index = 0; index < value.length; index++) {
+      const issue = item(value[index], mode, `${path}[${index}]`);
+      if (issue) {
+        return issue;
+      }
+    }
+    return null;
+  };
+}
+
+const validateUserInfoShape = objectValidator({
+  eth_address: { expected: 'a string', check: isString, essential: true },
+  character_name: { expected: 'a string', check: isString },
+  roles: {
+    expected: 'an array of strings',
+    check: value => Array.isArray(value) && value.every(isString),
+    essential: true,
+  },
+  is_admin: { expected: 'a boolean', check: isBoolean, essential: true },
+  tribe_id: { expected: 'a number or null', check: value => value === null || isNumber(value), optional: true },
+});
+
+const validateUserRoleShape = objectValidator({
+  id: { expected: 'a number', check: isNumber, essential: true },
+  name: { expected: 'a string', check: isString, essential: true },
+  description: { expected: 'a string or null', check: value => value === null || isString(value), optional: true },
+  created_by: { expected: 'a string', check: isString },
+  created_at: { expected: 'a string', check: isString },
+  updated_at: { expected: 'a string', check: isString },
+  is_active: { expected: 'a boolean', check: isBoolean, essential: true },
+});
+
+const validatePermissionScopeShape = objectValidator({
+  id: { expected: 'a string', check: isString, essential: true },
+  name: { expected: 'a string', check: isString },
+  description: { expected: 'a string', check: isString, optional: true },
+  resource: { expected: 'a string', check: isString, essential: true },
+  action: { expected: 'a string', check: isString, essential: true },
+  implies: {
+    expected: 'an array of strings',
+    check: value => Array.isArray(value) && value.every(isString),
+    optional: true,
+  },
+});
+
+const validatePermissionShape = objectValidator(
+  {
+    scope: { expected: 'an object', check: isRecord, essential: true },
+    effect: { expected: "'allow' or 'deny'", check: value => value === 'allow' || value === 'deny', essential: true },
+    conditions: {
+      expected: 'an array of strings',
+      check: value => Array.isArray(value) && value.every(isString),
+      optional: true,
+      essential: true,
+    },
+    resourceId: { expected: 'a string', check: isString, optional: true, essential: true },
+  },
+  { scope: validatePermissionScopeShape }
+);
+
+const validateVulturPermissionConfigShape = objectValidator(
+  {
+    applicationName: { expected: 'a string', check: isString, essential: true },
+    version: { expected: 'a string', check: isString },
+    permissions: { expected: 'an array', check: Array.isArray, essential: true },
+    defaultPermissions: { expected: 'an array', check: Array.isArray, optional: true },
+    lastUpdated: { expected: 'a string', check: isString },
+  },
+  {
+    permissions: arrayValidator(validatePermissionScopeShape),
+    defaultPermissions: arrayValidator(validatePermissionShape),
+  }
+);
+
+const validateUserRolesShape = arrayValidator(validateUserRoleShape);
+
+const validatePermissionCheckShape = objectValidator({
+  allowed: { expected: 'a boolean', check: isBoolean, optional: true },
+});
+
+/**
+ * Find the first field of `value` that does not match UserInfo
+ */
+export function validateUserInfo(value: unknown, mode: ValidationMode = 'strict'): ValidationIssue | null {
+  return validateUserInfoShape(value, mode, '');
+}
+
+/**
+ * Find the first field of `value` that does not match UserRole
+ */
+export function validateUserRole(value: unknown, mode: ValidationMode = 'strict'): ValidationIssue | null {
+  return validateUserRoleShape(value, mode, '');
+}
+
+/**
+ * Find the first field of `value` that does not match UserRole[]
+ */
+export function validateUserRoles(value: unknown, mode: ValidationMode = 'strict'): ValidationIssue | null {
+  return validateUserRolesShape(value, mode, '');
+}
+
+/**
+ * Find the first field of `value` that does not match VulturPermissionConfig
+ */
+export function validateVulturPermissionConfig(
+  value: unknown,
+  mode: ValidationMode = 'strict'
+): ValidationIssue | null {
+  return validateVulturPermissionConfigShape(value, mode, '');
+}
+
+/**
+ * Find the first field of a permission check response that is not as expected
+ */
+export function validatePermissionCheck(value: unknown, mode: ValidationMode = 'strict'): ValidationIssue | null {
+  return validatePermissionCheckShape(value, mode, '');
+}
+
+export function isUserInfo(value: unknown): value is UserInfo {
+  return validateUserInfo(value) === null;
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return validateUserRole(value) === null;
+}
+
+export function isPermissionScope(value: unknown): value is PermissionScope {
+  return validatePermissionScopeShape(value, 'strict', '') === null;
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return validatePermissionShape(value, 'strict', '') === null;
+}
+
+export function isVulturPermissionConfig(value: unknown): value is VulturPermissionConfig {
+  return validateVulturPermissionConfig(value) === null;
+}
+
+/**
+ * Validate a response body, throwing INVALID_RESPONSE naming the offending field
+ */
+export function assertValidResponse<T>(
+  value: unknown,
+  validate: (value: unknown, mode: ValidationMode) => ValidationIssue | null,
+  operation: string,
+  mode: ValidationMode = 'strict',
+  options: VulturSSOErrorOptions = {}
+): T {
+  const issue = validate(value, mode);
+  if (issue) {
+    throw new VulturSSOError(
+      'INVALID_RESPONSE',
+      `${operation}: invalid response, ${issue.path} must be ${issue.expected}`,
+      issue,
+      options
+    );
+  }
+  return value as T;
+}
+
+/**
+ * Read a JSON response from vultur-ident-api and validate its shape
+ */
+export async function readValidatedResponse<T>(
+  response: Response,
+  validate: (value: unknown, mode: ValidationMode) => ValidationIssue | null,
+  operation: string,
+  mode: ValidationMode = 'strict'
+): Promise<T> {
+  const body = await readJsonResponse<unknown>(response, operation);
+  return assertValidResponse<T>(body, validate, operation, mode, {
+    status: response.status,
+    requestId: response.headers.get('X-Request-Id') ?? undefined,
+  });
+}
+
+/**
+ * Problem found in a permission configuration
+ */
+export type PermissionConfigIssueCode =
+  | 'invalid-shape'
+  | 'missing-application-name'
+  | 'missing-version'
+  | 'invalid-version'
+  | 'missing-permissions'
+  | 'invalid-scope-id'
+  | 'duplicate-scope-id'
+  | 'empty-name'
+  | 'empty-resource'
+  | 'empty-action'
+  | 'scope-id-mismatch'
+  | 'invalid-implication'
+  | 'unknown-default-scope'
+  | 'duplicate-default-permission'
+  | 'invalid-last-updated'
+  | 'future-last-updated';
+
+export type PermissionConfigIssue = {
+  /** Errors make the configuration unusable; warnings only fail with `warningsAsErrors` */
+  severity: 'error' | 'warning';
+  code: PermissionConfigIssueCode;
+  /** Path to the offending field, e.g. `permissions[2].id` */
+  path: string;
+  message: string;
+};
+
+/**
+ * Result of validatePermissionConfig
+ */
+export type PermissionConfigValidationResult = {
+  /** Whether the configuration has no errors */
+  valid: boolean;
+  errors: PermissionConfigIssue[];
+  warnings: PermissionConfigIssue[];
+};
+
+/**
+ * How build() and initializeVulturSSO treat configuration warnings
+ */
+export type PermissionConfigValidationOptions = {
+  /** Optional: fail on warnings as well as errors (default: false) */
+  warningsAsErrors?: boolean;
+  /** Optional: receive warnings that do not fail (default: logged with console.warn) */
+  onWarning?: (warnings: PermissionConfigIssue[]) => void;
+};
+
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+const SCOPE_ID_PATTERN = /^[A-Za-z0-9_.-]+(?::[A-Za-z0-9_.-]+)+$/;
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+const isBlank = (value: unknown) => typeof value !== 'string' || value.trim() === '';
+
+/**
+ * Check a permission configuration for mistakes the type system cannot
+ * catch: duplicate or malformed scope ids, empty names, bad semver,
+ * implication cycles, default permissions for unknown scopes and stale
+ * timestamps. Entries of the wrong shape, e.g. from a config file, are
+ * reported as `invalid-shape` errors rather than thrown.
+ *
+ * ```typescript
+ * const { valid, errors, warnings } = validatePermissionConfig(permissionConfig);
+ * ```
+ */
+export function validatePermissionConfig(config: VulturPermissionConfig): PermissionConfigValidationResult {
+  const errors: PermissionConfigIssue[] = [];
+  const warnings: PermissionConfigIssue[] = [];
+  const error = (code: PermissionConfigIssueCode, path: string, message: string) =>
+    errors.push({ severity: 'error', code, path, message });
+  const warning = (code: PermissionConfigIssueCode, path: string, message: string) =>
+    warnings.push({ severity: 'warning', code, path, message });
+  const hasShape = (validate: Validator, value: unknown, path: string) => {
+    const issue = validate(value, 'strict', path);
+    if (issue) {
+      error('invalid-shape', issue.path, `${issue.path} must be ${issue.expected}`);
+    }
+    return issue === null;
+  };
+
+  if (!hasShape(value => (isRecord(value) ? null : { path: '(root)', expected: 'an object' }), config, '')) {
+    return { valid: false, errors, warnings };
+  }
+
+  if (isBlank(config.applicationName)) {
+    error('missing-application-name', 'applicationName', 'Application name is required');
+  }
+
+  if (isBlank(config.version)) {
+    error('missing-version', 'version', 'Version is required');
+  } else if (!SEMVER_PATTERN.test(config.version)) {
+    error('invalid-version', 'version', `Version '${config.version}' is not a semantic version (e.g. 1.0.0)`);
+  }
+
+  if (typeof config.lastUpdated !== 'string' || !ISO_TIMESTAMP_PATTERN.test(config.lastUpdated) || isNaN(Date.parse(config.lastUpdated))) {
+    error('invalid-last-updated', 'lastUpdated', 'lastUpdated must be an ISO 8601 timestamp');
+  } else if (Date.parse(config.lastUpdated) > Date.now() + 60 * 1000) {
+    warning('future-last-updated', 'lastUpdated', `lastUpdated '${config.lastUpdated}' is in the future`);
+  }
+
+  if (!Array.isArray(config.permissions)) {
+    error('missing-permissions', 'permissions', 'At least one permission scope is required');
+    return { valid: false, errors, warnings };
+  }
+
+  const seen = new Set<string>();
+  const wellFormed = config.permissions.map((scope, index) =>
+    hasShape(validatePermissionScopeShape, scope, `permissions[${index}]`)
+  );
+  config.permissions.forEach((scope, index) => {
+    const path = `permissions[${index}]`;
+    if (!wellFormed[index]) {
+      return;
+    }
+    if (typeof scope.id !== 'string' || !SCOPE_ID_PATTERN.test(scope.id)) {
+      error('invalid-scope-id', `${path}.id`, `Scope id '${scope.id}' must look like 'resource:action'`);
+    } else if (seen.has(scope.id)) {
+      error('duplicate-scope-id', `${path}.id`, `Scope id '${scope.id}' is defined more than once`);
+    }
+    seen.add(scope.id);
+
+    if (isBlank(scope.name)) {
+      error('empty-name', `${path}.name`, `Scope '${scope.id}' has no name`);
+    }
+    if (isBlank(scope.resource)) {
+      error('empty-resource', `${path}.resource`, `Scope '${scope.id}' has no resource`);
+    }
+    if (isBlank(scope.action)) {
+      error('empty-action', `${path}.action`, `Scope '${scope.id}' has no action`);
+    }
+    if (
+      SCOPE_ID_PATTERN.test(scope.id) &&
+      !isBlank(scope.resource) &&
+      !isBlank(scope.action) &&
+      !(scope.id.startsWith(`${scope.resource}:`) && scope.id.endsWith(`:${scope.action}`))
+    ) {
+      warning(
+        'scope-id-mismatch',
+        `${path}.id`,
+        `Scope id '${scope.id}' does not match its resource and action ('${scope.resource}:${scope.action}')`
+      );
+    }
+  });
+
+  try {
+    buildImplicationGraph(config.permissions.filter((_scope, index) => wellFormed[index]));
+  } catch (cause) {
+    if (!(cause instanceof VulturSSOError)) {
+      throw cause;
+    }
+    error('invalid-implication', 'permissions', cause.message);
+  }
+
+  const defaults = new Set<string>();
+  const defaultPermissions = config.defaultPermissions ?? [];
+  if (!Array.isArray(defaultPermissions)) {
+    error('invalid-shape', 'defaultPermissions', 'defaultPermissions must be an array');
+    return { valid: false, errors, warnings };
+  }
+  defaultPermissions.forEach((permission, index) => {
+    if (!hasShape(validatePermissionShape, permission, `defaultPermissions[${index}]`)) {
+      return;
+    }
+    const id = permission.scope.id;
+    const path = `defaultPermissions[${index}].scope.id`;
+    if (!seen.has(id)) {
+      error('unknown-default-scope', path, `Default permission references unknown scope '${id}'`);
+    } else if (defaults.has(id)) {
+      warning('duplicate-default-permission', path, `Scope '${id}' has more than one default permission`);
+    }
+    defaults.add(id);
+  });
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Validate a permission configuration, throwing CONFIG_ERROR listing every
+ * error (and every warning with `warningsAsErrors`)
+ */
+export function assertValidPermissionConfig(
+  config: VulturPermissionConfig,
+  options: PermissionConfigValidationOptions = {}
+): void {
+  const { errors, warnings } = validatePermissionConfig(config);
+  const failures = options.warningsAsErrors ? [...errors, ...warnings] : errors;
+
+  if (failures.length > 0) {
+    const name = isBlank(config?.applicationName) ? 'permission configuration' : `permission configuration for ${config.applicationName}`;
+    throw new VulturSSOError(
+      'CONFIG_ERROR',
+      `Invalid ${name}: ${failures.map(issue => issue.message).join('; ')}`,
+      { errors, warnings }
+    );
+  }
+
+  if (warnings.length > 0) {
+    if (options.onWarning) {
+      options.onWarning(warnings);
+    } else {
+      console.warn(
+        `Permission configuration warnings for ${config.applicationName}:\n${warnings.map(issue => `  - ${issue.message}`).join('\n')}`
+      );
+    }
+  }
+}
+
@@ -0,0 +1,4 @@
+/**
+ * Library version, kept in sync with package.json by the release and publish workflows
+ */
+export const VERSION = '1.1.1';